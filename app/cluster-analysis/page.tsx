@@ -1,7 +1,6 @@
 "use client"
 
-import React, { useEffect, useState } from "react"
-import Papa from "papaparse"
+import React, { useMemo, useState } from "react"
 import { Bar, Pie, Scatter } from "react-chartjs-2"
 import {
     Chart as ChartJS,
@@ -16,60 +15,67 @@ import {
 } from "chart.js"
 import { useRouter } from "next/navigation"
 import ChartDataLabels from "chartjs-plugin-datalabels"
+import { formatClusterLabel, getClusterIds, clusterWithSettings, type ClusterFeature, type ClusteringSettings } from "@/lib/clustering"
+import { getClusterColor } from "@/lib/cluster-colors"
+import ClusterDiagnostics from "../components/ClusterDiagnostics"
+import ClusterProfiles from "../components/ClusterProfiles"
+import { useDataset } from "@/components/dataset-provider"
+import type { PropertyData } from "@/lib/property-schema"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { applyPropertyFilters } from "@/lib/filters"
+import { AMENITY_TAGS } from "@/lib/amenities"
+import { DERIVED_METRICS } from "@/lib/derived-metrics"
+import { median } from "@/lib/stats"
+import { summarizeAreas } from "@/lib/admin-boundaries"
+import AreaSummaryTable from "../components/AreaSummaryTable"
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, Title, Tooltip, Legend, PointElement, ArcElement, ChartDataLabels)
 
-const CLUSTER_COLORS: Record<number, string> = {
-    0: "#ef4444",
-    1: "#3b82f6",
-    2: "#10b981",
-}
-
 export default function ClusterAnalysisPage() {
     const router = useRouter()
-    const [data, setData] = useState<any[]>([])
-    const [loading, setLoading] = useState(true)
+    const { ready, properties, filters, sourceName, clusterNames, applyClustering, renameCluster, boundaries } = useDataset()
+    const [useFiltered, setUseFiltered] = useState(false)
+
+    // Analyze either the whole dataset or the subset matching the map page filters
+    const data = useMemo(
+        () => (useFiltered ? applyPropertyFilters(properties, filters) : properties),
+        [useFiltered, properties, filters],
+    )
 
-    useEffect(() => {
-        fetch("/sample_properties.csv")
-            .then((res) => res.text())
-            .then((csv) => {
-                Papa.parse(csv, {
-                    header: true,
-                    skipEmptyLines: true,
-                    dynamicTyping: true,
-                    complete: (results: any) => {
-                        setData(results.data)
-                        setLoading(false)
-                    },
-                })
-            })
-    }, [])
+    const areaSummaries = useMemo(() => (boundaries ? summarizeAreas(data, boundaries.areas) : null), [boundaries, data])
 
-    if (loading) {
+    // Re-clusters the whole dataset, so the diagnostics sweep also runs on all properties rather than `data`
+    const applyRecommendedK = (k: number, features: ClusterFeature[]) => {
+        const settings: ClusteringSettings = { method: "kmeans", k, features }
+        applyClustering(clusterWithSettings(properties, settings), settings)
+    }
+
+    if (!ready) {
         return <div className="min-h-screen flex items-center justify-center">Loading...</div>
     }
 
     // Helper: group by cluster
-    const clusters = [0, 1, 2]
+    const clusters = getClusterIds(data)
+    const clusterLabels = clusters.map((c) => formatClusterLabel(c, clusterNames))
     const clusterCounts = clusters.map((c) => data.filter((d) => d.cluster === c).length)
 
     // Helper: get numeric array for a field, filter out NaN/empty
-    const getNumeric = (field: string) => data.map((d) => Number(d[field])).filter((v) => !isNaN(v))
+    const getNumeric = (field: keyof PropertyData) => data.map((d) => Number(d[field])).filter((v) => !isNaN(v))
 
     // Chart data
     const clusterPie = {
-        labels: clusters.map((c) => `Cluster ${c}`),
+        labels: clusterLabels,
         datasets: [
             {
                 data: clusterCounts,
-                backgroundColor: clusters.map((c) => CLUSTER_COLORS[Number(c)]),
+                backgroundColor: clusters.map(getClusterColor),
             },
         ],
     }
 
     const priceBar = {
-        labels: clusters.map((c) => `Cluster ${c}`),
+        labels: clusterLabels,
         datasets: [
             {
                 label: "Rata-rata Harga (IDR)",
@@ -77,13 +83,13 @@ export default function ClusterAnalysisPage() {
                     const arr = data.filter((d) => d.cluster === c).map((d) => Number(d.price)).filter((v) => !isNaN(v))
                     return arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0
                 }),
-                backgroundColor: clusters.map((c) => CLUSTER_COLORS[Number(c)]),
+                backgroundColor: clusters.map(getClusterColor),
             },
         ],
     }
 
     const landBar = {
-        labels: clusters.map((c) => `Cluster ${c}`),
+        labels: clusterLabels,
         datasets: [
             {
                 label: "Rata-rata Luas Tanah (m²)",
@@ -91,13 +97,13 @@ export default function ClusterAnalysisPage() {
                     const arr = data.filter((d) => d.cluster === c).map((d) => Number(d.land_area)).filter((v) => !isNaN(v))
                     return arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0
                 }),
-                backgroundColor: clusters.map((c) => CLUSTER_COLORS[Number(c)]),
+                backgroundColor: clusters.map(getClusterColor),
             },
         ],
     }
 
     const buildingBar = {
-        labels: clusters.map((c) => `Cluster ${c}`),
+        labels: clusterLabels,
         datasets: [
             {
                 label: "Rata-rata Luas Bangunan (m²)",
@@ -105,13 +111,13 @@ export default function ClusterAnalysisPage() {
                     const arr = data.filter((d) => d.cluster === c).map((d) => Number(d.building_area)).filter((v) => !isNaN(v))
                     return arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0
                 }),
-                backgroundColor: clusters.map((c) => CLUSTER_COLORS[Number(c)]),
+                backgroundColor: clusters.map(getClusterColor),
             },
         ],
     }
 
     const bedroomBar = {
-        labels: clusters.map((c) => `Cluster ${c}`),
+        labels: clusterLabels,
         datasets: [
             {
                 label: "Rata-rata Kamar Tidur",
@@ -119,13 +125,13 @@ export default function ClusterAnalysisPage() {
                     const arr = data.filter((d) => d.cluster === c).map((d) => Number(d.bedrooms)).filter((v) => !isNaN(v))
                     return arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0
                 }),
-                backgroundColor: clusters.map((c) => CLUSTER_COLORS[Number(c)]),
+                backgroundColor: clusters.map(getClusterColor),
             },
         ],
     }
 
     const bathroomBar = {
-        labels: clusters.map((c) => `Cluster ${c}`),
+        labels: clusterLabels,
         datasets: [
             {
                 label: "Rata-rata Kamar Mandi",
@@ -133,22 +139,59 @@ export default function ClusterAnalysisPage() {
                     const arr = data.filter((d) => d.cluster === c).map((d) => Number(d.bathrooms)).filter((v) => !isNaN(v))
                     return arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0
                 }),
-                backgroundColor: clusters.map((c) => CLUSTER_COLORS[Number(c)]),
+                backgroundColor: clusters.map(getClusterColor),
             },
         ],
     }
 
+    // Medians rather than means: per-m² prices are heavily skewed by a few tiny plots
+    const metricBars = DERIVED_METRICS.map(({ key, label, unit }) => ({
+        key,
+        title: `Median ${label} per Cluster`,
+        data: {
+            labels: clusterLabels,
+            datasets: [
+                {
+                    label: unit ? `Median ${label} (${unit})` : `Median ${label}`,
+                    data: clusters.map((c) =>
+                        median(data.filter((d) => d.cluster === c).map((d) => d[key]).filter((v): v is number => v !== null)) || 0,
+                    ),
+                    backgroundColor: clusters.map(getClusterColor),
+                },
+            ],
+        },
+        isPrice: !!unit,
+    }))
+
+    // Share of each cluster carrying each amenity tag, grouped by tag
+    const amenityBar = {
+        labels: AMENITY_TAGS.map((t) => t.label),
+        datasets: clusters.map((c, i) => {
+            const members = data.filter((d) => d.cluster === c)
+            return {
+                label: clusterLabels[i],
+                data: AMENITY_TAGS.map(({ key }) =>
+                    members.length ? (members.filter((d) => d.amenities.includes(key)).length / members.length) * 100 : 0,
+                ),
+                backgroundColor: getClusterColor(c),
+            }
+        }),
+    }
+
     // Scatter for price vs land_area
+    const scatterPoints = data
+        .map((d) => ({
+            x: Number(d.land_area),
+            y: Number(d.price),
+            cluster: d.cluster,
+        }))
+        .filter((d) => !isNaN(d.x) && !isNaN(d.y))
     const scatterPriceLand = {
         datasets: [
             {
                 label: "Harga vs Luas Tanah",
-                data: data.map((d) => ({
-                    x: Number(d.land_area),
-                    y: Number(d.price),
-                    cluster: d.cluster,
-                })).filter((d) => !isNaN(d.x) && !isNaN(d.y)),
-                backgroundColor: data.map((d) => CLUSTER_COLORS[Number(d.cluster)] || "#6b7280"),
+                data: scatterPoints,
+                backgroundColor: scatterPoints.map((d) => getClusterColor(Number(d.cluster))),
                 pointRadius: 4,
             },
         ],
@@ -169,7 +212,7 @@ export default function ClusterAnalysisPage() {
         properties: validProperties,
         selectedProperty: null,
         onPropertySelect: () => { },
-        getClusterColor: (cluster: number) => CLUSTER_COLORS[Number(cluster)] || "#6b7280",
+        getClusterColor,
         className: "w-full h-[400px] rounded-xl border mb-8",
     }
 
@@ -222,6 +265,18 @@ export default function ClusterAnalysisPage() {
         },
     }
 
+    const compactBarDatalabelsOptions = {
+        plugins: {
+            datalabels: {
+                ...barDatalabelsOptions.plugins.datalabels,
+                formatter: (value: any) =>
+                    typeof value === 'number'
+                        ? new Intl.NumberFormat('id-ID', { notation: 'compact', maximumFractionDigits: 1 }).format(value)
+                        : value,
+            },
+        },
+    }
+
     return (
         <div className="min-h-screen bg-gray-50 py-10 px-4">
             <div className="max-w-7xl mx-auto space-y-10">
@@ -232,6 +287,27 @@ export default function ClusterAnalysisPage() {
                     <span className="mr-2">←</span> Kembali
                 </button>
                 <h2 className="text-3xl font-bold text-blue-900 mb-2">Analisis Kluster Properti</h2>
+                <div className="flex flex-wrap items-center justify-between gap-4 text-sm text-gray-600">
+                    <span>
+                        Dataset: <span className="font-semibold text-blue-900">{sourceName}</span> · {data.length} dari{" "}
+                        {properties.length} properti
+                    </span>
+                    <div className="flex items-center gap-2">
+                        <Switch id="use-filtered" checked={useFiltered} onCheckedChange={setUseFiltered} />
+                        <Label htmlFor="use-filtered">
+                            Gunakan filter dari halaman peta{filters.viewport && " (termasuk area peta yang terlihat)"}
+                        </Label>
+                    </div>
+                </div>
+                <div className="bg-white rounded-xl shadow p-6">
+                    <h3 className="font-semibold mb-4">Profil Cluster</h3>
+                    <ClusterProfiles
+                        properties={data}
+                        names={clusterNames}
+                        onRename={renameCluster}
+                        className="grid grid-cols-1 md:grid-cols-2 gap-4"
+                    />
+                </div>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
                     <div className="bg-white rounded-xl shadow p-6">
                         <h3 className="font-semibold mb-4">Distribusi Properti per Cluster</h3>
@@ -257,7 +333,44 @@ export default function ClusterAnalysisPage() {
                         <h3 className="font-semibold mb-4">Rata-rata Kamar Mandi per Cluster</h3>
                         <Bar data={bathroomBar} height={300} options={barDatalabelsOptions} plugins={[ChartDataLabels]} />
                     </div>
+                    {metricBars.map((chart) => (
+                        <div key={chart.key} className="bg-white rounded-xl shadow p-6">
+                            <h3 className="font-semibold mb-4">{chart.title}</h3>
+                            <Bar data={chart.data} height={300} options={chart.isPrice ? compactBarDatalabelsOptions : barDatalabelsOptions} plugins={[ChartDataLabels]} />
+                        </div>
+                    ))}
+                </div>
+                <div className="bg-white rounded-xl shadow p-6">
+                    <h3 className="font-semibold mb-4">Tag Fasilitas per Cluster (% properti)</h3>
+                    <Bar
+                        data={amenityBar}
+                        height={100}
+                        options={{
+                            scales: { y: { min: 0, max: 100, title: { display: true, text: '% properti' } } },
+                            plugins: {
+                                datalabels: { display: false },
+                                tooltip: {
+                                    callbacks: {
+                                        label: (ctx: any) => `${ctx.dataset.label}: ${Number(ctx.raw).toFixed(1)}%`,
+                                    },
+                                },
+                            },
+                        }}
+                    />
+                </div>
+                <div className="bg-white rounded-xl shadow p-6">
+                    <h3 className="font-semibold mb-4">
+                        Ringkasan per Wilayah{boundaries && <span className="font-normal text-gray-500"> · {boundaries.sourceName}</span>}
+                    </h3>
+                    {areaSummaries ? (
+                        <AreaSummaryTable areas={areaSummaries} getClusterLabel={(c) => formatClusterLabel(c, clusterNames)} />
+                    ) : (
+                        <p className="text-sm text-gray-500">
+                            Muat file batas wilayah (GeoJSON kecamatan/kelurahan) dari panel &quot;Batas Wilayah&quot; di halaman peta.
+                        </p>
+                    )}
                 </div>
+                <ClusterDiagnostics properties={properties} onApply={applyRecommendedK} />
                 <div className="bg-white rounded-xl shadow p-6 mt-8">
                     <h3 className="font-semibold mb-4">Sebaran Harga vs Luas Tanah</h3>
                     <Scatter data={scatterPriceLand} options={{
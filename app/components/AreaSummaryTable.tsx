@@ -0,0 +1,66 @@
+"use client"
+
+import { useMemo } from "react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { AreaSummaries } from "@/lib/admin-boundaries"
+import { getClusterColor } from "@/lib/cluster-colors"
+
+interface AreaSummaryTableProps {
+  areas: AreaSummaries
+  getClusterLabel: (cluster: number) => string
+}
+
+const compactNumber = new Intl.NumberFormat("id-ID", { notation: "compact", maximumFractionDigits: 1 })
+const formatCompact = (value: number) => (Number.isFinite(value) ? compactNumber.format(value) : "-")
+
+export default function AreaSummaryTable({ areas, getClusterLabel }: AreaSummaryTableProps) {
+  // Busiest areas first; empty areas stay listed so gaps in coverage are visible
+  const rows = useMemo(
+    () => [...areas.summaries].sort((a, b) => b.count - a.count || a.area.name.localeCompare(b.area.name)),
+    [areas],
+  )
+
+  return (
+    <div>
+      <div className="max-h-[480px] overflow-auto rounded-lg border">
+        <Table containerClassName="overflow-visible" className="text-sm">
+          <TableHeader>
+            <TableRow>
+              {["Wilayah", "Jumlah", "Median Harga", "Median Harga/m² LB", "Komposisi Cluster"].map((label) => (
+                <TableHead key={label} className="sticky top-0 z-10 bg-white whitespace-nowrap">
+                  {label}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((summary) => (
+              <TableRow key={summary.area.id} className={summary.count ? "" : "text-gray-400"}>
+                <TableCell className="font-medium">{summary.area.name}</TableCell>
+                <TableCell className="tabular-nums">{summary.count}</TableCell>
+                <TableCell className="tabular-nums">{formatCompact(summary.medianPrice)}</TableCell>
+                <TableCell className="tabular-nums">{formatCompact(summary.medianPricePerBuildingM2)}</TableCell>
+                <TableCell className="min-w-[200px]">
+                  {summary.count > 0 && (
+                    <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-100">
+                      {summary.clusterMix.map(({ cluster, count }) => (
+                        <div
+                          key={cluster}
+                          title={`${getClusterLabel(cluster)}: ${count} (${Math.round((count / summary.count) * 100)}%)`}
+                          style={{ width: `${(count / summary.count) * 100}%`, backgroundColor: getClusterColor(cluster) }}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {areas.unassigned > 0 && (
+        <p className="mt-2 text-xs text-gray-500">{areas.unassigned} properti berada di luar semua batas wilayah.</p>
+      )}
+    </div>
+  )
+}
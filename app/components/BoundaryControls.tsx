@@ -0,0 +1,162 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Map as MapIcon, Upload, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import {
+  CHOROPLETH_STATISTICS,
+  parseAdminBoundaries,
+  type AdminBoundaries,
+  type AreaColorScale,
+  type ChoroplethSettings,
+  type ChoroplethStatistic,
+} from "@/lib/admin-boundaries"
+import { sequentialColor } from "@/lib/hexbin"
+
+interface BoundaryControlsProps {
+  value: ChoroplethSettings
+  onChange: (value: ChoroplethSettings) => void
+  boundaries: AdminBoundaries | null
+  onBoundariesChange: (boundaries: AdminBoundaries | null) => void
+  scale?: AreaColorScale | null
+  // Filtered properties that fall outside every area
+  unassigned?: number
+  formatValue?: (value: number) => string
+  className?: string
+}
+
+const LEGEND_STEPS = 6
+
+export default function BoundaryControls({
+  value,
+  onChange,
+  boundaries,
+  onBoundariesChange,
+  scale,
+  unassigned = 0,
+  formatValue = String,
+  className,
+}: BoundaryControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const update = (changes: Partial<ChoroplethSettings>) => onChange({ ...value, ...changes })
+  const hasRange = !!scale && Number.isFinite(scale.min) && Number.isFinite(scale.max)
+
+  const load = async (name: string, read: () => Promise<AdminBoundaries>) => {
+    setLoading(true)
+    setError(null)
+    try {
+      onBoundariesChange(await read())
+    } catch (error) {
+      console.error("Boundary import error:", error)
+      setError(`Gagal membaca ${name}: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (file) load(file.name, async () => parseAdminBoundaries(JSON.parse(await file.text()), file.name))
+  }
+
+  return (
+    <div className={`w-64 rounded-2xl bg-white/80 p-4 shadow-xl backdrop-blur-lg space-y-3 ${className ?? ""}`}>
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="choropleth-enabled" className="flex items-center gap-2 text-blue-900 font-semibold">
+          <MapIcon className="h-4 w-4 text-emerald-600" />
+          Batas Wilayah
+        </Label>
+        <Switch id="choropleth-enabled" checked={value.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+      </div>
+
+      {value.enabled && (
+        <>
+          {boundaries ? (
+            <div className="flex items-start justify-between gap-2 text-xs text-blue-800">
+              <span className="min-w-0 break-words">
+                <span className="font-semibold">{boundaries.sourceName}</span> · {boundaries.areas.length} wilayah
+                {unassigned > 0 && <span className="block text-gray-500">{unassigned} properti di luar batas</span>}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                title="Hapus batas wilayah"
+                onClick={() => onBoundariesChange(null)}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ) : (
+            <p className="text-xs text-blue-800">Muat GeoJSON kecamatan/kelurahan (Polygon atau MultiPolygon).</p>
+          )}
+          <div className="flex gap-2">
+            <input ref={fileInputRef} type="file" accept=".geojson,.json" onChange={handleFileUpload} className="hidden" />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 flex-1 text-xs"
+              disabled={loading}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="mr-1 h-3 w-3" />
+              {loading ? "Memuat..." : boundaries ? "Ganti file" : "Unggah file"}
+            </Button>
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          {boundaries && (
+            <>
+              <div>
+                <Label className="text-xs text-blue-800">Warna wilayah</Label>
+                <Select
+                  value={value.statistic}
+                  onValueChange={(statistic) => update({ statistic: statistic as ChoroplethStatistic })}
+                >
+                  <SelectTrigger className="mt-1 h-8 bg-white/80 border border-blue-200 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[1100]">
+                    {CHOROPLETH_STATISTICS.map(({ key, label }) => (
+                      <SelectItem key={key} value={key}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {value.statistic === "cluster_mix" ? (
+                <p className="text-xs text-blue-800">
+                  Warna cluster terbanyak; makin pekat makin dominan. Arahkan kursor untuk komposisi lengkap.
+                </p>
+              ) : (
+                hasRange && (
+                  <div>
+                    <div
+                      className="h-2 rounded-full"
+                      style={{
+                        background: `linear-gradient(to right, ${Array.from({ length: LEGEND_STEPS }, (_, i) =>
+                          sequentialColor(i, 0, LEGEND_STEPS - 1),
+                        ).join(", ")})`,
+                      }}
+                    />
+                    <div className="mt-1 flex justify-between text-xs text-blue-800 tabular-nums">
+                      <span>≤ {formatValue(scale.min)}</span>
+                      <span>≥ {formatValue(scale.max)}</span>
+                    </div>
+                  </div>
+                )
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
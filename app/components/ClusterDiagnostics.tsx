@@ -0,0 +1,178 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Line } from "react-chartjs-2"
+import { Chart as ChartJS, CategoryScale, LinearScale, LineElement, PointElement, Tooltip, Legend } from "chart.js"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  DEFAULT_CLUSTER_FEATURES,
+  MAX_SWEEP_POINTS,
+  diagnoseK,
+  findElbowK,
+  planSweep,
+  recommendK,
+  type ClusterFeature,
+  type KDiagnostic,
+} from "@/lib/clustering"
+import type { PropertyData } from "@/lib/property-schema"
+import ClusterFeaturePicker from "./ClusterFeaturePicker"
+
+ChartJS.register(CategoryScale, LinearScale, LineElement, PointElement, Tooltip, Legend)
+
+interface ClusterDiagnosticsProps {
+  properties: PropertyData[]
+  onApply: (k: number, features: ClusterFeature[]) => void
+}
+
+export default function ClusterDiagnostics({ properties, onApply }: ClusterDiagnosticsProps) {
+  const [features, setFeatures] = useState<ClusterFeature[]>(DEFAULT_CLUSTER_FEATURES)
+  const [range, setRange] = useState({ minK: "2", maxK: "8" })
+  const [results, setResults] = useState<KDiagnostic[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [runningK, setRunningK] = useState<number | null>(null)
+  const timeoutRef = useRef<ReturnType<typeof setTimeout>>()
+
+  useEffect(() => () => clearTimeout(timeoutRef.current), [])
+
+  const runSweep = () => {
+    clearTimeout(timeoutRef.current)
+    let plan: ReturnType<typeof planSweep>
+    try {
+      plan = planSweep(properties, {
+        features,
+        minK: Number.parseInt(range.minK),
+        maxK: Number.parseInt(range.maxK),
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      return
+    }
+    setResults([])
+    setError(null)
+
+    // One k per tick so the page stays responsive and the curves fill in as they are computed
+    const step = (index: number) => {
+      const k = plan.ks[index]
+      if (k === undefined) {
+        setRunningK(null)
+        return
+      }
+      setRunningK(k)
+      timeoutRef.current = setTimeout(() => {
+        try {
+          const result = diagnoseK(plan.points, k)
+          setResults((prev) => [...prev, result])
+          step(index + 1)
+        } catch (err) {
+          console.error("Diagnostics error:", err)
+          setError(err instanceof Error ? err.message : String(err))
+          setRunningK(null)
+        }
+      }, 0)
+    }
+    step(0)
+  }
+
+  const running = runningK !== null
+  const recommended = recommendK(results)
+  const elbow = findElbowK(results)
+
+  const chartData = {
+    labels: results.map((r) => `k=${r.k}`),
+    datasets: [
+      {
+        label: "WCSS (Inertia)",
+        data: results.map((r) => r.inertia),
+        borderColor: "#3b82f6",
+        backgroundColor: "#3b82f6",
+        yAxisID: "y",
+      },
+      {
+        label: "Silhouette",
+        data: results.map((r) => r.silhouette),
+        borderColor: "#10b981",
+        backgroundColor: "#10b981",
+        yAxisID: "y1",
+      },
+    ],
+  }
+
+  const chartOptions = {
+    plugins: {
+      datalabels: { display: false },
+    },
+    scales: {
+      y: { position: "left" as const, title: { display: true, text: "WCSS" } },
+      y1: { position: "right" as const, title: { display: true, text: "Silhouette" }, grid: { drawOnChartArea: false } },
+    },
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow p-6">
+      <h3 className="font-semibold mb-4">Diagnostik Jumlah Cluster (Elbow & Silhouette)</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-4">
+          <div>
+            <Label className="text-blue-800 font-semibold">Fitur</Label>
+            <ClusterFeaturePicker value={features} onChange={setFeatures} className="grid grid-cols-2 gap-2 mt-2" />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="min-k" className="text-blue-800 font-semibold">k Minimal</Label>
+              <Input
+                id="min-k"
+                type="number"
+                min={2}
+                value={range.minK}
+                onChange={(e) => setRange((prev) => ({ ...prev, minK: e.target.value }))}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="max-k" className="text-blue-800 font-semibold">k Maksimal</Label>
+              <Input
+                id="max-k"
+                type="number"
+                min={2}
+                value={range.maxK}
+                onChange={(e) => setRange((prev) => ({ ...prev, maxK: e.target.value }))}
+                className="mt-2"
+              />
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button onClick={runSweep} disabled={running || !properties.length || !features.length} className="w-full">
+            {running ? `Menghitung k = ${runningK}...` : "Hitung Diagnostik"}
+          </Button>
+          {properties.length > MAX_SWEEP_POINTS && (
+            <p className="text-xs text-gray-500">
+              Dihitung dari sampel merata maksimal {MAX_SWEEP_POINTS} dari {properties.length} properti.
+            </p>
+          )}
+          {recommended !== null && !running && (
+            <div className="rounded-lg bg-blue-50 p-4 space-y-2 text-sm text-blue-900">
+              <p>
+                Rekomendasi: <span className="font-bold">k = {recommended}</span> (silhouette tertinggi)
+              </p>
+              {elbow !== null && <p>Titik elbow WCSS: k = {elbow}</p>}
+              <Button onClick={() => onApply(recommended, features)} variant="outline" className="w-full">
+                Terapkan k = {recommended}
+              </Button>
+            </div>
+          )}
+        </div>
+        <div className="md:col-span-2">
+          {results.length ? (
+            <Line data={chartData} options={chartOptions} />
+          ) : (
+            <div className="h-full min-h-[200px] flex items-center justify-center text-gray-400 text-sm">
+              Jalankan diagnostik untuk melihat kurva WCSS dan silhouette
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+"use client"
+
+import { Checkbox } from "@/components/ui/checkbox"
+import { AMENITY_CLUSTER_FEATURES, CLUSTER_FEATURES, type ClusterFeature } from "@/lib/clustering"
+
+interface ClusterFeaturePickerProps {
+  value: ClusterFeature[]
+  onChange: (features: ClusterFeature[]) => void
+  className?: string
+}
+
+export default function ClusterFeaturePicker({ value, onChange, className }: ClusterFeaturePickerProps) {
+  const toggle = (feature: ClusterFeature, checked: boolean) => {
+    onChange(checked ? [...value, feature] : value.filter((f) => f !== feature))
+  }
+
+  const renderOption = ({ key, label }: { key: ClusterFeature; label: string }) => (
+    <label key={key} className="flex items-center gap-2 text-sm text-blue-900">
+      <Checkbox checked={value.includes(key)} onCheckedChange={(checked) => toggle(key, checked === true)} />
+      {label}
+    </label>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className={className || "grid grid-cols-2 gap-2"}>{CLUSTER_FEATURES.map(renderOption)}</div>
+      <div>
+        <p className="text-xs font-medium text-blue-700">Tag fasilitas (opsional)</p>
+        <div className={className || "grid grid-cols-2 gap-2"}>{AMENITY_CLUSTER_FEATURES.map(renderOption)}</div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import { useMemo } from "react"
+import { Input } from "@/components/ui/input"
+import { getClusterColor } from "@/lib/cluster-colors"
+import { buildClusterProfiles } from "@/lib/cluster-profiles"
+import { formatClusterLabel, type ClusterNames } from "@/lib/clustering"
+import type { PropertyData } from "@/lib/property-schema"
+
+interface ClusterProfilesProps {
+  properties: PropertyData[]
+  names: ClusterNames
+  onRename: (cluster: number, name: string) => void
+  className?: string
+}
+
+export default function ClusterProfiles({ properties, names, onRename, className }: ClusterProfilesProps) {
+  const profiles = useMemo(() => buildClusterProfiles(properties), [properties])
+
+  return (
+    <div className={className || "space-y-4"}>
+      {profiles.map((profile) => (
+        <div key={profile.cluster} className="flex items-start gap-3">
+          <div
+            className="mt-3 w-4 h-4 flex-shrink-0 rounded-full border-2 border-white shadow"
+            style={{ backgroundColor: getClusterColor(profile.cluster) }}
+          />
+          <div className="flex-1 space-y-1">
+            <Input
+              value={names[profile.cluster] ?? ""}
+              placeholder={formatClusterLabel(profile.cluster)}
+              onChange={(e) => onRename(profile.cluster, e.target.value)}
+              className="bg-white/80 border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-400"
+            />
+            <p className="text-xs text-gray-600">
+              {profile.size} properti · {profile.description}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
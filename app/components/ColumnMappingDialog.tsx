@@ -0,0 +1,136 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  PROPERTY_FIELDS,
+  loadSavedMapping,
+  missingRequiredFields,
+  suggestMapping,
+  type ColumnMapping,
+} from "@/lib/column-mapping"
+import type { RawTable } from "@/lib/property-import"
+
+interface ColumnMappingDialogProps {
+  table: RawTable | null
+  onConfirm: (table: RawTable, mapping: ColumnMapping) => void
+  onCancel: () => void
+}
+
+const PREVIEW_ROWS = 5
+// Radix Select items cannot use an empty string as their value
+const UNMAPPED = "__none__"
+
+export default function ColumnMappingDialog({ table, onConfirm, onCancel }: ColumnMappingDialogProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [remembered, setRemembered] = useState(false)
+
+  // Start from the mapping remembered for this header set, else from the auto-suggestion
+  useEffect(() => {
+    if (!table) return
+    const saved = loadSavedMapping(table.headers)
+    setRemembered(!!saved)
+    setMapping(saved || suggestMapping(table.headers))
+  }, [table])
+
+  const missing = missingRequiredFields(mapping)
+  // A blank header (e.g. a pandas index column) cannot be a Select value and holds nothing to map anyway
+  const mappableHeaders = table?.headers.filter((header) => header.trim()) ?? []
+
+  return (
+    <Dialog open={!!table} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="z-[1200] max-w-4xl">
+        {table && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Pemetaan Kolom: {table.sourceName}</DialogTitle>
+              <DialogDescription>
+                {remembered
+                  ? "Pemetaan tersimpan untuk susunan kolom ini telah diterapkan."
+                  : "Pemetaan disarankan otomatis dari nama kolom. Sesuaikan bila perlu."}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="max-h-[40vh] overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {table.headers.map((header) => (
+                      <TableHead key={header} className="whitespace-nowrap">
+                        {header}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {table.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <TableRow key={index}>
+                      {table.headers.map((header) => (
+                        <TableCell key={header} className="max-w-[160px] truncate">
+                          {String(row[header] ?? "")}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {PROPERTY_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <Label className="text-blue-800 font-semibold">
+                    {field.label}
+                    {field.required && <span className="text-red-600"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] || UNMAPPED}
+                    onValueChange={(value) =>
+                      setMapping((prev) => ({ ...prev, [field.key]: value === UNMAPPED ? undefined : value }))
+                    }
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="z-[1300]">
+                      <SelectItem value={UNMAPPED}>— Tidak ada —</SelectItem>
+                      {mappableHeaders.map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {missing.length > 0 && (
+              <p className="text-sm text-red-600">Kolom wajib belum dipetakan: {missing.map((f) => f.label).join(", ")}</p>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={onCancel}>
+                Batal
+              </Button>
+              <Button onClick={() => onConfirm(table, mapping)} disabled={missing.length > 0}>
+                Lanjutkan
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { Flame } from "lucide-react"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { HEATMAP_WEIGHTS, type HeatmapSettings, type HeatmapWeight } from "@/lib/heatmap"
+
+interface HeatmapControlsProps {
+  value: HeatmapSettings
+  onChange: (value: HeatmapSettings) => void
+  className?: string
+}
+
+export default function HeatmapControls({ value, onChange, className }: HeatmapControlsProps) {
+  const update = (changes: Partial<HeatmapSettings>) => onChange({ ...value, ...changes })
+
+  return (
+    <div className={`w-64 rounded-2xl bg-white/80 p-4 shadow-xl backdrop-blur-lg space-y-3 ${className ?? ""}`}>
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="heatmap-enabled" className="flex items-center gap-2 text-blue-900 font-semibold">
+          <Flame className="h-4 w-4 text-orange-500" />
+          Heatmap
+        </Label>
+        <Switch id="heatmap-enabled" checked={value.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+      </div>
+
+      {value.enabled && (
+        <>
+          <div>
+            <Label className="text-xs text-blue-800">Bobot</Label>
+            <Select value={value.weight} onValueChange={(weight) => update({ weight: weight as HeatmapWeight })}>
+              <SelectTrigger className="mt-1 h-8 bg-white/80 border border-blue-200 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[1100]">
+                {HEATMAP_WEIGHTS.map(({ key, label }) => (
+                  <SelectItem key={key} value={key}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <div className="flex justify-between text-xs text-blue-800">
+              <span>Radius</span>
+              <span className="tabular-nums">{value.radius}px</span>
+            </div>
+            <Slider min={5} max={60} step={1} value={[value.radius]} onValueChange={([radius]) => update({ radius })} className="mt-2" />
+          </div>
+          <div>
+            <div className="flex justify-between text-xs text-blue-800">
+              <span>Blur</span>
+              <span className="tabular-nums">{value.blur}px</span>
+            </div>
+            <Slider min={1} max={40} step={1} value={[value.blur]} onValueChange={([blur]) => update({ blur })} className="mt-2" />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="heatmap-markers" className="text-xs text-blue-800">Tampilkan marker</Label>
+            <Switch
+              id="heatmap-markers"
+              checked={value.showMarkers}
+              onCheckedChange={(showMarkers) => update({ showMarkers })}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { Hexagon } from "lucide-react"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import {
+  HEXBIN_SIZES_KM,
+  HEXBIN_STATISTICS,
+  sequentialColor,
+  type HexColorScale,
+  type HexbinSettings,
+  type HexbinStatistic,
+} from "@/lib/hexbin"
+
+interface HexbinControlsProps {
+  value: HexbinSettings
+  onChange: (value: HexbinSettings) => void
+  // Current color scale, for the legend
+  scale?: HexColorScale | null
+  formatValue?: (value: number) => string
+  className?: string
+}
+
+const LEGEND_STEPS = 6
+
+export default function HexbinControls({ value, onChange, scale, formatValue = String, className }: HexbinControlsProps) {
+  const update = (changes: Partial<HexbinSettings>) => onChange({ ...value, ...changes })
+  const hasRange = !!scale && Number.isFinite(scale.min) && Number.isFinite(scale.max)
+
+  return (
+    <div className={`w-64 rounded-2xl bg-white/80 p-4 shadow-xl backdrop-blur-lg space-y-3 ${className ?? ""}`}>
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="hexbin-enabled" className="flex items-center gap-2 text-blue-900 font-semibold">
+          <Hexagon className="h-4 w-4 text-blue-600" />
+          Grid Heksagon
+        </Label>
+        <Switch id="hexbin-enabled" checked={value.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+      </div>
+
+      {value.enabled && (
+        <>
+          <div>
+            <Label className="text-xs text-blue-800">Warna sel</Label>
+            <Select value={value.statistic} onValueChange={(statistic) => update({ statistic: statistic as HexbinStatistic })}>
+              <SelectTrigger className="mt-1 h-8 bg-white/80 border border-blue-200 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[1100]">
+                {HEXBIN_STATISTICS.map(({ key, label }) => (
+                  <SelectItem key={key} value={key}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs text-blue-800">Ukuran sel (radius)</Label>
+            <Select value={String(value.sizeKm)} onValueChange={(sizeKm) => update({ sizeKm: Number(sizeKm) })}>
+              <SelectTrigger className="mt-1 h-8 bg-white/80 border border-blue-200 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[1100]">
+                {HEXBIN_SIZES_KM.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size} km
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {value.statistic === "dominant_cluster" ? (
+            <p className="text-xs text-blue-800">Sel diwarnai sesuai warna cluster terbanyak di dalamnya.</p>
+          ) : (
+            hasRange && (
+              <div>
+                <div
+                  className="h-2 rounded-full"
+                  style={{
+                    background: `linear-gradient(to right, ${Array.from({ length: LEGEND_STEPS }, (_, i) =>
+                      sequentialColor(i, 0, LEGEND_STEPS - 1),
+                    ).join(", ")})`,
+                  }}
+                />
+                <div className="mt-1 flex justify-between text-xs text-blue-800 tabular-nums">
+                  <span>≤ {formatValue(scale.min)}</span>
+                  <span>≥ {formatValue(scale.max)}</span>
+                </div>
+              </div>
+            )
+          )}
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="hexbin-markers" className="text-xs text-blue-800">Tampilkan marker</Label>
+            <Switch
+              id="hexbin-markers"
+              checked={value.showMarkers}
+              onCheckedChange={(showMarkers) => update({ showMarkers })}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+"use client"
+
+import type React from "react"
+import { findMatches } from "@/lib/search"
+
+interface HighlightedTextProps {
+  text: string
+  query: string
+}
+
+export default function HighlightedText({ text, query }: HighlightedTextProps) {
+  const matches = findMatches(text, query)
+  if (!matches.length) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  matches.forEach(({ start, end }) => {
+    if (start > cursor) parts.push(text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-200 px-0.5 text-inherit">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    cursor = end
+  })
+  if (cursor < text.length) parts.push(text.slice(cursor))
+  return <>{parts}</>
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import { Shapes } from "lucide-react"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import type { HullMethod, HullSettings } from "@/lib/hulls"
+
+interface HullControlsProps {
+  value: HullSettings
+  onChange: (value: HullSettings) => void
+  className?: string
+}
+
+const HULL_METHODS: { key: HullMethod; label: string }[] = [
+  { key: "convex", label: "Convex hull" },
+  { key: "concave", label: "Concave hull" },
+]
+
+export default function HullControls({ value, onChange, className }: HullControlsProps) {
+  const update = (changes: Partial<HullSettings>) => onChange({ ...value, ...changes })
+
+  return (
+    <div className={`w-64 rounded-2xl bg-white/80 p-4 shadow-xl backdrop-blur-lg space-y-3 ${className ?? ""}`}>
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="hull-enabled" className="flex items-center gap-2 text-blue-900 font-semibold">
+          <Shapes className="h-4 w-4 text-violet-600" />
+          Jangkauan Cluster
+        </Label>
+        <Switch id="hull-enabled" checked={value.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+      </div>
+
+      {value.enabled && (
+        <>
+          <div>
+            <Label className="text-xs text-blue-800">Bentuk</Label>
+            <Select value={value.method} onValueChange={(method) => update({ method: method as HullMethod })}>
+              <SelectTrigger className="mt-1 h-8 bg-white/80 border border-blue-200 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[1100]">
+                {HULL_METHODS.map(({ key, label }) => (
+                  <SelectItem key={key} value={key}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {value.method === "concave" && (
+            <div>
+              <div className="flex justify-between text-xs text-blue-800">
+                <span>Konkavitas (kecil = lebih rapat)</span>
+                <span className="tabular-nums">{value.concavity}</span>
+              </div>
+              <Slider
+                min={1}
+                max={5}
+                step={0.5}
+                value={[value.concavity]}
+                onValueChange={([concavity]) => update({ concavity })}
+                className="mt-2"
+              />
+            </div>
+          )}
+          <div>
+            <div className="flex justify-between text-xs text-blue-800">
+              <span>Abaikan outlier di atas persentil</span>
+              <span className="tabular-nums">{value.outlierPercentile}%</span>
+            </div>
+            <Slider
+              min={50}
+              max={100}
+              step={1}
+              value={[value.outlierPercentile]}
+              onValueChange={([outlierPercentile]) => update({ outlierPercentile })}
+              className="mt-2"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { ImportReport } from "@/lib/property-import"
+
+interface ImportReportDialogProps {
+  report: ImportReport | null
+  onAccept: (report: ImportReport) => void
+  onCancel: () => void
+}
+
+export default function ImportReportDialog({ report, onAccept, onCancel }: ImportReportDialogProps) {
+  return (
+    <Dialog open={!!report} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="z-[1200] max-w-2xl">
+        {report && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Laporan Import: {report.sourceName}</DialogTitle>
+              <DialogDescription>
+                {report.accepted.length} dari {report.total} baris valid, {report.rejected.length} baris ditolak.
+              </DialogDescription>
+            </DialogHeader>
+            {report.rejected.length > 0 && (
+              <div className="max-h-[50vh] overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Baris</TableHead>
+                      <TableHead>Nama</TableHead>
+                      <TableHead>Alasan</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rejected.map((row) => (
+                      <TableRow key={row.row}>
+                        <TableCell className="font-mono">{row.row}</TableCell>
+                        <TableCell className="max-w-[200px] truncate" title={row.name}>
+                          {row.name || "-"}
+                        </TableCell>
+                        <TableCell className="text-red-600">{row.errors.join("; ")}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={onCancel}>
+                Batal
+              </Button>
+              <Button onClick={() => onAccept(report)} disabled={!report.accepted.length}>
+                Terima {report.accepted.length} Properti
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import { useEffect, useRef, useState, type ReactNode } from "react"
+import { ArrowDown, ArrowUp } from "lucide-react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { PropertySort, SortField } from "@/lib/filters"
+import type { PropertyData } from "@/lib/property-schema"
+
+interface PropertyTableProps {
+  properties: PropertyData[]
+  selectedProperty: PropertyData | null
+  sort: PropertySort | null
+  onSortChange: (sort: PropertySort | null) => void
+  onSelect: (property: PropertyData) => void
+  onHover: (property: PropertyData | null) => void
+  getClusterColor: (cluster: number) => string
+  getClusterLabel: (cluster: number) => string
+}
+
+// Rows have a fixed height so the visible window can be computed from scrollTop alone
+const ROW_HEIGHT = 36
+const VIEWPORT_HEIGHT = 420
+const OVERSCAN = 8
+
+const compactNumber = new Intl.NumberFormat("id-ID", { notation: "compact", maximumFractionDigits: 1 })
+const formatCompact = (value: number | null) => (value === null ? "-" : compactNumber.format(value))
+const formatDecimal = (value: number | null) => (value === null ? "-" : value.toFixed(2))
+
+// Columns without a sort handler
+type StaticColumn = "coordinates" | "url"
+
+const COLUMNS: { key: SortField | StaticColumn; label: string; render: (p: PropertyData) => ReactNode }[] = [
+  { key: "price", label: "Harga", render: (p) => formatCompact(p.price) },
+  { key: "bedrooms", label: "KT", render: (p) => p.bedrooms },
+  { key: "bathrooms", label: "KM", render: (p) => p.bathrooms },
+  { key: "floors", label: "Lantai", render: (p) => p.floors },
+  { key: "land_area", label: "LT (m²)", render: (p) => p.land_area },
+  { key: "building_area", label: "LB (m²)", render: (p) => p.building_area },
+  { key: "price_per_building_m2", label: "Harga/m² LB", render: (p) => formatCompact(p.price_per_building_m2) },
+  { key: "price_per_land_m2", label: "Harga/m² LT", render: (p) => formatCompact(p.price_per_land_m2) },
+  { key: "building_land_ratio", label: "LB/LT", render: (p) => formatDecimal(p.building_land_ratio) },
+  {
+    key: "coordinates",
+    label: "Koordinat",
+    render: (p) => `${p.latitude.toFixed(4)}, ${p.longitude.toFixed(4)}`,
+  },
+  {
+    key: "url",
+    label: "URL",
+    render: (p) =>
+      p.url ? (
+        <a
+          href={p.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+          className="text-blue-700 hover:underline"
+        >
+          Buka
+        </a>
+      ) : (
+        "-"
+      ),
+  },
+]
+
+const isStaticColumn = (key: SortField | StaticColumn): key is StaticColumn => key === "coordinates" || key === "url"
+
+export default function PropertyTable({
+  properties,
+  selectedProperty,
+  sort,
+  onSortChange,
+  onSelect,
+  onHover,
+  getClusterColor,
+  getClusterLabel,
+}: PropertyTableProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const [scrollTop, setScrollTop] = useState(0)
+
+  // Bring the row of a marker selected on the map into view
+  useEffect(() => {
+    const container = scrollRef.current
+    if (!container || !selectedProperty) return
+    const index = properties.indexOf(selectedProperty)
+    if (index < 0) return
+    const rowTop = index * ROW_HEIGHT
+    if (rowTop < container.scrollTop || rowTop + ROW_HEIGHT > container.scrollTop + container.clientHeight - ROW_HEIGHT) {
+      container.scrollTop = Math.max(0, rowTop - container.clientHeight / 2)
+    }
+  }, [properties, selectedProperty])
+
+  // Cycle a column through ascending, descending and file order
+  const toggleSort = (field: SortField) => {
+    if (sort?.field !== field) onSortChange({ field, direction: "asc" })
+    else if (sort.direction === "asc") onSortChange({ field, direction: "desc" })
+    else onSortChange(null)
+  }
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const last = Math.min(properties.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN)
+  const visible = properties.slice(first, last)
+
+  const renderHead = (field: SortField, label: string, className?: string) => (
+    <TableHead key={field} className={`sticky top-0 z-10 bg-white whitespace-nowrap ${className ?? ""}`}>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-blue-700" onClick={() => toggleSort(field)}>
+        {label}
+        {sort?.field === field &&
+          (sort.direction === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  )
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      onMouseLeave={() => onHover(null)}
+      className="overflow-auto rounded-lg border bg-white/80"
+      style={{ height: VIEWPORT_HEIGHT }}
+    >
+      <Table containerClassName="overflow-visible" className="text-xs">
+        <TableHeader>
+          <TableRow>
+            {renderHead("name", "Nama", "min-w-[220px]")}
+            {renderHead("cluster", "Cluster")}
+            {COLUMNS.map((column) =>
+              isStaticColumn(column.key) ? (
+                <TableHead key={column.key} className="sticky top-0 z-10 bg-white whitespace-nowrap">
+                  {column.label}
+                </TableHead>
+              ) : (
+                renderHead(column.key, column.label)
+              ),
+            )}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {first > 0 && (
+            <tr aria-hidden style={{ height: first * ROW_HEIGHT }}>
+              <td colSpan={COLUMNS.length + 2} />
+            </tr>
+          )}
+          {visible.map((property, offset) => {
+            const index = first + offset
+            return (
+              <TableRow
+                key={index}
+                data-state={property === selectedProperty ? "selected" : undefined}
+                onMouseEnter={() => onHover(property)}
+                onClick={() => onSelect(property)}
+                className="cursor-pointer data-[state=selected]:bg-blue-100"
+                style={{ height: ROW_HEIGHT }}
+              >
+                <TableCell className="max-w-[260px] truncate py-0" title={property.name}>
+                  {property.name}
+                </TableCell>
+                <TableCell className="py-0 whitespace-nowrap">
+                  <span className="inline-flex items-center gap-1">
+                    <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: getClusterColor(property.cluster) }} />
+                    {getClusterLabel(property.cluster)}
+                  </span>
+                </TableCell>
+                {COLUMNS.map((column) => (
+                  <TableCell key={column.key} className="py-0 whitespace-nowrap tabular-nums">
+                    {column.render(property)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            )
+          })}
+          {last < properties.length && (
+            <tr aria-hidden style={{ height: (properties.length - last) * ROW_HEIGHT }}>
+              <td colSpan={COLUMNS.length + 2} />
+            </tr>
+          )}
+        </TableBody>
+      </Table>
+      {!properties.length && <p className="p-4 text-center text-sm text-gray-500">Tidak ada properti yang cocok dengan filter</p>}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { useMemo } from "react"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { histogram } from "@/lib/stats"
+
+interface RangeFilterProps {
+  label: string
+  values: number[]
+  bounds: [number, number]
+  // Undefined means the filter is inactive and spans the full bounds
+  value?: [number, number]
+  integer?: boolean
+  format?: (value: number) => string
+  onChange: (value: [number, number] | undefined) => void
+}
+
+const HISTOGRAM_BINS = 24
+
+export default function RangeFilter({
+  label,
+  values,
+  bounds,
+  value,
+  integer = false,
+  format = (v) => v.toLocaleString("id-ID"),
+  onChange,
+}: RangeFilterProps) {
+  const [min, max] = bounds
+  const counts = useMemo(() => histogram(values, min, max, HISTOGRAM_BINS), [values, min, max])
+  const peak = Math.max(1, ...counts)
+  const step = integer ? 1 : Math.max((max - min) / 100, Number.EPSILON)
+
+  // Clamp so a range kept from a previous dataset still renders inside the slider
+  const current: [number, number] = value
+    ? [Math.min(Math.max(value[0], min), max), Math.max(Math.min(value[1], max), min)]
+    : [min, max]
+
+  const handleChange = ([low, high]: number[]) => {
+    // Dragging back to the full extent clears the filter
+    onChange(low <= min && high >= max ? undefined : [low, high])
+  }
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between gap-2">
+        <Label className="text-blue-800 font-semibold">{label}</Label>
+        <span className="text-xs text-blue-900 tabular-nums">
+          {format(current[0])} – {format(current[1])}
+        </span>
+      </div>
+      <div className="mt-2 flex h-8 items-end gap-px">
+        {counts.map((count, index) => {
+          const binStart = min + ((max - min) * index) / HISTOGRAM_BINS
+          const binEnd = min + ((max - min) * (index + 1)) / HISTOGRAM_BINS
+          const inside = binEnd >= current[0] && binStart <= current[1]
+          return (
+            <div
+              key={index}
+              className={`flex-1 rounded-t-sm ${inside ? "bg-blue-400" : "bg-blue-100"}`}
+              style={{ height: `${(count / peak) * 100}%` }}
+            />
+          )
+        })}
+      </div>
+      <Slider
+        min={min}
+        max={max}
+        step={step}
+        value={current}
+        onValueChange={handleChange}
+        disabled={min === max}
+        minStepsBetweenThumbs={0}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import { useState } from "react"
+import { Layers } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  DEFAULT_CLUSTER_FEATURES,
+  clusterWithSettings,
+  type ClusterFeature,
+  type ClusteringSettings,
+} from "@/lib/clustering"
+import type { PropertyData } from "@/lib/property-schema"
+import ClusterFeaturePicker from "./ClusterFeaturePicker"
+
+type ClusterMethod = "kmeans" | "dbscan"
+
+interface ReclusterPanelProps {
+  properties: PropertyData[]
+  onClustered: (properties: PropertyData[], settings: ClusteringSettings) => void
+}
+
+const inputClassName = "mt-2 bg-white/80 border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-400"
+
+export default function ReclusterPanel({ properties, onClustered }: ReclusterPanelProps) {
+  const [method, setMethod] = useState<ClusterMethod>("kmeans")
+  const [features, setFeatures] = useState<ClusterFeature[]>(DEFAULT_CLUSTER_FEATURES)
+  const [k, setK] = useState("3")
+  const [epsilon, setEpsilon] = useState("500")
+  const [minPoints, setMinPoints] = useState("5")
+  const [error, setError] = useState<string | null>(null)
+
+  const runClustering = () => {
+    try {
+      const settings: ClusteringSettings =
+        method === "kmeans"
+          ? { method, features, k: Number.parseInt(k) }
+          : { method, epsilonMeters: Number.parseFloat(epsilon), minPoints: Number.parseInt(minPoints) }
+      onClustered(clusterWithSettings(properties, settings), settings)
+      setError(null)
+    } catch (err) {
+      console.error("Clustering error:", err)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <Card className="p-6 bg-white/30 border-0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-blue-900 font-bold text-lg">
+          <Layers className="h-5 w-5" />
+          Clustering Ulang
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label className="text-blue-800 font-semibold">Metode</Label>
+          <Select value={method} onValueChange={(value) => setMethod(value as ClusterMethod)}>
+            <SelectTrigger className={inputClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-[1100]">
+              <SelectItem value="kmeans">K-Means (atribut)</SelectItem>
+              <SelectItem value="dbscan">DBSCAN (kepadatan lokasi)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {method === "kmeans" ? (
+          <>
+            <div>
+              <Label className="text-blue-800 font-semibold">Fitur</Label>
+              <ClusterFeaturePicker value={features} onChange={setFeatures} className="grid grid-cols-2 gap-2 mt-2" />
+            </div>
+            <div>
+              <Label htmlFor="cluster-k" className="text-blue-800 font-semibold">Jumlah Cluster (k)</Label>
+              <Input
+                id="cluster-k"
+                type="number"
+                min={2}
+                max={10}
+                value={k}
+                onChange={(e) => setK(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="dbscan-epsilon" className="text-blue-800 font-semibold">Epsilon (m)</Label>
+              <Input
+                id="dbscan-epsilon"
+                type="number"
+                min={1}
+                value={epsilon}
+                onChange={(e) => setEpsilon(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <Label htmlFor="dbscan-min-points" className="text-blue-800 font-semibold">minPts</Label>
+              <Input
+                id="dbscan-min-points"
+                type="number"
+                min={1}
+                value={minPoints}
+                onChange={(e) => setMinPoints(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Button
+          onClick={runClustering}
+          disabled={!properties.length || (method === "kmeans" && !features.length)}
+          className="w-full rounded-lg bg-blue-600 text-white font-semibold shadow hover:bg-blue-700 transition"
+        >
+          Jalankan Clustering
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,35 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import type { Workbook } from "@/lib/property-import"
+
+interface SheetPickerDialogProps {
+  workbook: Workbook | null
+  onSelect: (workbook: Workbook, sheetName: string) => void
+  onCancel: () => void
+}
+
+export default function SheetPickerDialog({ workbook, onSelect, onCancel }: SheetPickerDialogProps) {
+  return (
+    <Dialog open={!!workbook} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="z-[1200]">
+        {workbook && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Pilih Sheet: {workbook.sourceName}</DialogTitle>
+              <DialogDescription>File ini memiliki beberapa sheet. Pilih sheet yang berisi data properti.</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-2">
+              {workbook.sheetNames.map((sheetName) => (
+                <Button key={sheetName} variant="outline" className="justify-start" onClick={() => onSelect(workbook, sheetName)}>
+                  {sheetName}
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,27 +1,191 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
-import type { PropertyData } from "../page"
+import { useState, useEffect, useRef, useMemo } from "react"
+import type * as L from "leaflet"
+import type { PropertyData } from "@/lib/property-schema"
+import { NOISE_CLUSTER, formatClusterLabel } from "@/lib/clustering"
+import type { LatLngTuple, MapBounds, MapView, SpatialShape } from "@/lib/spatial"
+import { buildHeatPoints, type HeatmapSettings } from "@/lib/heatmap"
+import type { HexbinLayer, HexCell } from "@/lib/hexbin"
+import type { AreaSummary, ChoroplethLayer } from "@/lib/admin-boundaries"
+import type { ClusterHull } from "@/lib/hulls"
+import { escapeHtml } from "@/lib/utils"
 
 interface SimpleMapComponentProps {
   properties: PropertyData[]
   selectedProperty: PropertyData | null
   onPropertySelect: (property: PropertyData) => void
   getClusterColor: (cluster: number) => string
+  getClusterLabel?: (cluster: number) => string
+  // Drawing tools are only shown when the parent handles shape changes
+  shape?: SpatialShape | null
+  onShapeChange?: (shape: SpatialShape | null) => void
+  // Called with the visible bounds and view after every pan/zoom (and once the map is ready)
+  onBoundsChange?: (bounds: MapBounds, view: MapView) => void
+  // Center/zoom to show, e.g. from a shared link or browser history; user panning is reported via onBoundsChange
+  view?: MapView | null
+  // Selection restored together with a view (shared link, history); the map stays on that view instead of panning to it
+  restoredSelection?: PropertyData | null
+  // Property hovered elsewhere (e.g. the list); ringed on the map even when its marker is clustered
+  highlightedProperty?: PropertyData | null
+  heatmap?: HeatmapSettings
+  // Aggregated hexagon grid drawn under the markers, with a summary tooltip per cell
+  hexbin?: HexbinLayer | null
+  // Administrative areas colored by a per-area statistic, drawn below everything else
+  choropleth?: ChoroplethLayer | null
+  // Footprint outline per cluster, in the cluster color
+  hulls?: ClusterHull[] | null
   className?: string
 }
 
+const SHAPE_STYLE = { color: "#2563eb", weight: 2, fillOpacity: 0.08 }
+const HEX_STYLE = { color: "#ffffff", weight: 1, fillOpacity: 0.55 }
+const AREA_STYLE = { color: "#475569", weight: 1 }
+
+const compactNumber = new Intl.NumberFormat("id-ID", { notation: "compact", maximumFractionDigits: 1 })
+const formatCompact = (value: number) => (Number.isFinite(value) ? compactNumber.format(value) : "-")
+
+// Above this many markers, DOM icons and clustering get sluggish; markers are drawn on a canvas instead
+const CANVAS_MARKER_THRESHOLD = 3000
+const CANVAS_MARKER_RADIUS = 5
+
+const canvasMarkerStyle = (selected: boolean) => ({
+  radius: selected ? CANVAS_MARKER_RADIUS * 2 : CANVAS_MARKER_RADIUS,
+  color: "#ffffff",
+  weight: selected ? 3 : 1,
+  fillOpacity: 0.9,
+})
+
+function createMarkerIcon(leaflet: any, property: PropertyData, color: string, isSelected: boolean) {
+  const size = isSelected ? 35 : 25
+  return leaflet.divIcon({
+    html: `
+      <div style="
+        background-color: ${color};
+        width: ${size}px;
+        height: ${size}px;
+        border-radius: 50%;
+        border: 3px solid white;
+        box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        color: white;
+        font-weight: bold;
+        font-size: ${isSelected ? "14px" : "12px"};
+        transform: ${isSelected ? "scale(1.2)" : "scale(1)"};
+        transition: all 0.2s ease;
+      ">
+        ${property.cluster === NOISE_CLUSTER ? "N" : property.cluster}
+      </div>
+    `,
+    className: "custom-marker",
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  })
+}
+
+function hexTooltip(cell: HexCell, getClusterLabel: (cluster: number) => string) {
+  return `
+    <div class="text-xs">
+      <p class="font-semibold">${cell.count} listing</p>
+      <p>Median harga: ${formatCompact(cell.medianPrice)}</p>
+      <p>Median harga/m² bangunan: ${formatCompact(cell.medianPricePerBuildingM2)}</p>
+      <p>Cluster dominan: ${escapeHtml(getClusterLabel(cell.dominantCluster))} (${Math.round(cell.dominantShare * 100)}%)</p>
+    </div>
+  `
+}
+
+// Convert a drawn Leaflet layer back to the serializable filter shape
+function layerToShape(leaflet: typeof L, layer: L.Layer): SpatialShape {
+  const toTuple = (latLng: L.LatLng): LatLngTuple => [latLng.lat, latLng.lng]
+  if (layer instanceof leaflet.Circle) {
+    return { type: "circle", center: toTuple(layer.getLatLng()), radiusKm: layer.getRadius() / 1000 }
+  }
+  // Rectangle extends Polygon, so it has to be checked first
+  if (layer instanceof leaflet.Rectangle) {
+    const bounds = layer.getBounds()
+    return { type: "rectangle", southWest: toTuple(bounds.getSouthWest()), northEast: toTuple(bounds.getNorthEast()) }
+  }
+  // The draw control only creates simple polygons: one outer ring, no holes
+  const [outer] = (layer as L.Polygon).getLatLngs() as L.LatLng[][]
+  return { type: "polygon", points: outer.map(toTuple) }
+}
+
+function shapeToLayer(leaflet: typeof L, shape: SpatialShape): L.Polygon | L.Rectangle | L.Circle {
+  switch (shape.type) {
+    case "polygon":
+      return leaflet.polygon(shape.points, SHAPE_STYLE)
+    case "rectangle":
+      return leaflet.rectangle([shape.southWest, shape.northEast], SHAPE_STYLE)
+    case "circle":
+      return leaflet.circle(shape.center, { ...SHAPE_STYLE, radius: shape.radiusKm * 1000 })
+  }
+}
+
+function areaTooltip(summary: AreaSummary, getClusterLabel: (cluster: number) => string) {
+  const mix = summary.clusterMix
+    .map(({ cluster, count }) => `${escapeHtml(getClusterLabel(cluster))}: ${Math.round((count / summary.count) * 100)}%`)
+    .join("<br />")
+  return `
+    <div class="text-xs">
+      <p class="font-semibold">${escapeHtml(summary.area.name)}</p>
+      <p>${summary.count} listing</p>
+      ${
+        summary.count
+          ? `<p>Median harga: ${formatCompact(summary.medianPrice)}</p>
+             <p>Median harga/m² bangunan: ${formatCompact(summary.medianPricePerBuildingM2)}</p>
+             <p class="mt-1">${mix}</p>`
+          : ""
+      }
+    </div>
+  `
+}
+
 export default function SimpleMapComponent({
   properties,
   selectedProperty,
   onPropertySelect,
   getClusterColor,
+  getClusterLabel = formatClusterLabel,
+  shape = null,
+  onShapeChange,
+  onBoundsChange,
+  highlightedProperty = null,
+  view = null,
+  restoredSelection = null,
+  heatmap,
+  hexbin = null,
+  choropleth = null,
+  hulls = null,
   className,
 }: SimpleMapComponentProps) {
   const [map, setMap] = useState<any>(null)
   const [leaflet, setLeaflet] = useState<any>(null)
   const mapRef = useRef<any>(null)
   const clusterGroupRef = useRef<any>(null)
+  const canvasRendererRef = useRef<any>(null)
+  // Marker per property of the current layer, so selection can restyle a single marker
+  const markersRef = useRef<Map<PropertyData, any>>(new Map())
+  const [markersVersion, setMarkersVersion] = useState(0)
+  const drawnItemsRef = useRef<any>(null)
+  const highlightRef = useRef<any>(null)
+  const heatLayerRef = useRef<any>(null)
+  const hexLayerRef = useRef<any>(null)
+  const choroplethLayerRef = useRef<any>(null)
+  const hullLayerRef = useRef<any>(null)
+  const heatmapEnabled = !!heatmap?.enabled
+  const hideMarkers = (heatmapEnabled && !heatmap?.showMarkers) || (!!hexbin && !hexbin.showMarkers)
+  // JSON of the shape currently on the map, so echoes of our own edits are not redrawn
+  const renderedShapeRef = useRef<string>("null")
+  const onShapeChangeRef = useRef(onShapeChange)
+  onShapeChangeRef.current = onShapeChange
+  const onBoundsChangeRef = useRef(onBoundsChange)
+  onBoundsChangeRef.current = onBoundsChange
+  // Read when a popup opens, so renaming a cluster does not rebuild every marker
+  const getClusterLabelRef = useRef(getClusterLabel)
+  getClusterLabelRef.current = getClusterLabel
+  const initialViewRef = useRef(view)
 
   // Dynamically import leaflet and markercluster
   useEffect(() => {
@@ -29,6 +193,8 @@ export default function SimpleMapComponent({
       try {
         await import("leaflet")
         await import("leaflet.markercluster")
+        await import("leaflet-draw")
+        await import("leaflet.heat")
         const leafletInstance = window.L
         setLeaflet(leafletInstance)
 
@@ -43,13 +209,65 @@ export default function SimpleMapComponent({
         }
 
         // Create map
-        const mapInstance = leafletInstance.map("map").setView([-6.9502023, 107.53771], 9)
+        const initialView = initialViewRef.current
+        const mapInstance = leafletInstance
+          .map("map")
+          .setView(initialView?.center ?? [-6.9502023, 107.53771], initialView?.zoom ?? 9)
 
         // Add tile layer
         leafletInstance.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
           attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
         }).addTo(mapInstance)
 
+        // Drawn filter area plus polygon/rectangle/circle tools that edit or delete it
+        const drawnItems = leafletInstance.featureGroup().addTo(mapInstance)
+        drawnItemsRef.current = drawnItems
+        if (onShapeChangeRef.current) {
+          const emitShape = (shape: SpatialShape | null) => {
+            renderedShapeRef.current = JSON.stringify(shape)
+            onShapeChangeRef.current?.(shape)
+          }
+          mapInstance.addControl(
+            new leafletInstance.Control.Draw({
+              draw: {
+                polygon: { allowIntersection: false, shapeOptions: SHAPE_STYLE },
+                // showArea on rectangles throws in leaflet-draw 1.0.4
+                rectangle: { showArea: false, shapeOptions: SHAPE_STYLE },
+                circle: { metric: true, shapeOptions: SHAPE_STYLE },
+                polyline: false,
+                marker: false,
+                circlemarker: false,
+              },
+              edit: { featureGroup: drawnItems },
+            }),
+          )
+          mapInstance.on(leafletInstance.Draw.Event.CREATED, (event) => {
+            const { layer } = event as L.DrawEvents.Created
+            // Only one area at a time: a new drawing replaces the previous one
+            drawnItems.clearLayers()
+            drawnItems.addLayer(layer)
+            emitShape(layerToShape(leafletInstance, layer))
+          })
+          mapInstance.on(leafletInstance.Draw.Event.EDITED, () => {
+            const [layer] = drawnItems.getLayers()
+            if (layer) emitShape(layerToShape(leafletInstance, layer))
+          })
+          mapInstance.on(leafletInstance.Draw.Event.DELETED, () => {
+            if (!drawnItems.getLayers().length) emitShape(null)
+          })
+        }
+
+        const emitBounds = () => {
+          const bounds = mapInstance.getBounds()
+          const center = mapInstance.getCenter()
+          onBoundsChangeRef.current?.(
+            { southWest: [bounds.getSouth(), bounds.getWest()], northEast: [bounds.getNorth(), bounds.getEast()] },
+            { center: [center.lat, center.lng], zoom: mapInstance.getZoom() },
+          )
+        }
+        mapInstance.on("moveend", emitBounds)
+        emitBounds()
+
         setMap(mapInstance)
         mapRef.current = mapInstance
       } catch (error) {
@@ -71,70 +289,207 @@ export default function SimpleMapComponent({
     }
   }, [])
 
-  // Add markers with clustering
+  // Add markers: clustered DOM icons for regular datasets, plain canvas circles for large ones
   useEffect(() => {
-    if (!map || !leaflet || !properties.length) return
+    if (!map || !leaflet) return
 
-    // Remove previous cluster group
+    // Remove previous cluster group, also when the filters leave nothing to show
     if (clusterGroupRef.current) {
       map.removeLayer(clusterGroupRef.current)
       clusterGroupRef.current = null
     }
+    markersRef.current = new Map()
+    if (!properties.length || hideMarkers) {
+      setMarkersVersion((version) => version + 1)
+      return
+    }
 
-    // Create cluster group
-    const markerClusterGroup = leaflet.markerClusterGroup()
+    const canvasMode = properties.length > CANVAS_MARKER_THRESHOLD
+    const group = canvasMode ? leaflet.featureGroup() : leaflet.markerClusterGroup()
+    if (canvasMode && !canvasRendererRef.current) canvasRendererRef.current = leaflet.canvas({ padding: 0.5 })
+    // One tooltip shared by every canvas marker instead of one instance each
+    const hoverTooltip = canvasMode ? leaflet.tooltip({ direction: "top", offset: [0, -CANVAS_MARKER_RADIUS] }) : null
 
     properties.forEach((property) => {
+      const latLng = [property.latitude, property.longitude]
       const color = getClusterColor(property.cluster)
-      const isSelected = selectedProperty?.name === property.name
-      const size = isSelected ? 35 : 25
-
-      const customIcon = leaflet.divIcon({
-        html: `
-          <div style="
-            background-color: ${color};
-            width: ${size}px;
-            height: ${size}px;
-            border-radius: 50%;
-            border: 3px solid white;
-            box-shadow: 0 2px 4px rgba(0,0,0,0.3);
-            display: flex;
-            align-items: center;
-            justify-content: center;
-            color: white;
-            font-weight: bold;
-            font-size: ${isSelected ? "14px" : "12px"};
-            transform: ${isSelected ? "scale(1.2)" : "scale(1)"};
-            transition: all 0.2s ease;
-          ">
-            ${property.cluster}
-          </div>
-        `,
-        className: "custom-marker",
-        iconSize: [size, size],
-        iconAnchor: [size / 2, size / 2],
-      })
+      const marker = canvasMode
+        ? leaflet
+            .circleMarker(latLng, { ...canvasMarkerStyle(false), fillColor: color, renderer: canvasRendererRef.current })
+            .on("mouseover", () => map.openTooltip(hoverTooltip.setContent(escapeHtml(property.name)), latLng))
+            .on("mouseout", () => map.closeTooltip(hoverTooltip))
+        : leaflet.marker(latLng, { icon: createMarkerIcon(leaflet, property, color, false) })
 
-      const marker = leaflet
-        .marker([property.latitude, property.longitude], { icon: customIcon })
+      marker
         .bindPopup(
-          `
+          () => `
           <div class="p-2 min-w-[200px]">
-            <h3 class="font-semibold text-lg mb-2">${property.name}</h3>
+            <h3 class="font-semibold text-lg mb-2">${escapeHtml(property.name)}</h3>
             <div class="text-sm">
-              <p><span class="font-medium">Cluster:</span> ${property.cluster}</p>
+              <p><span class="font-medium">Cluster:</span> ${escapeHtml(getClusterLabelRef.current(property.cluster))}</p>
             </div>
           </div>
         `,
         )
         .on("click", () => onPropertySelect(property))
 
-      markerClusterGroup.addLayer(marker)
+      markersRef.current.set(property, marker)
+      group.addLayer(marker)
     })
 
-    markerClusterGroup.addTo(map)
-    clusterGroupRef.current = markerClusterGroup
-  }, [map, leaflet, properties, selectedProperty, getClusterColor, onPropertySelect])
+    group.addTo(map)
+    clusterGroupRef.current = group
+    setMarkersVersion((version) => version + 1)
+  }, [map, leaflet, properties, getClusterColor, onPropertySelect, hideMarkers])
+
+  // Restyle only the selected marker rather than rebuilding every marker on selection changes
+  useEffect(() => {
+    const marker = selectedProperty ? markersRef.current.get(selectedProperty) : null
+    if (!leaflet || !marker || !selectedProperty) return
+    const setSelected = (selected: boolean) => {
+      if (marker.setIcon) {
+        const color = getClusterColor(selectedProperty.cluster)
+        marker.setIcon(createMarkerIcon(leaflet, selectedProperty, color, selected))
+        marker.setZIndexOffset(selected ? 1000 : 0)
+      } else {
+        marker.setStyle(canvasMarkerStyle(selected))
+        if (selected) marker.bringToFront()
+      }
+    }
+    setSelected(true)
+    return () => setSelected(false)
+  }, [leaflet, selectedProperty, markersVersion, getClusterColor])
+
+  // Heatmap below the markers; points are rebuilt when the data or weighting changes, restyled in place otherwise
+  const heatWeight = heatmap?.weight
+  const heatPoints = useMemo(
+    () => (heatmapEnabled && heatWeight ? buildHeatPoints(properties, heatWeight) : []),
+    [heatmapEnabled, heatWeight, properties],
+  )
+  useEffect(() => {
+    if (!map || !leaflet) return
+    if (!heatmapEnabled) {
+      if (heatLayerRef.current) {
+        map.removeLayer(heatLayerRef.current)
+        heatLayerRef.current = null
+      }
+      return
+    }
+    if (!heatLayerRef.current) {
+      heatLayerRef.current = leaflet.heatLayer([], {}).addTo(map)
+    }
+    heatLayerRef.current.setLatLngs(heatPoints)
+  }, [map, leaflet, heatmapEnabled, heatPoints])
+
+  const heatRadius = heatmap?.radius
+  const heatBlur = heatmap?.blur
+  useEffect(() => {
+    if (!heatLayerRef.current) return
+    heatLayerRef.current.setOptions({ radius: heatRadius, blur: heatBlur })
+  }, [heatPoints, heatRadius, heatBlur])
+
+  useEffect(() => {
+    if (!map || !leaflet) return
+    if (choroplethLayerRef.current) {
+      map.removeLayer(choroplethLayerRef.current)
+      choroplethLayerRef.current = null
+    }
+    if (!choropleth?.summaries.length) return
+    const group = leaflet.layerGroup()
+    choropleth.summaries.forEach((summary) => {
+      const style = {
+        ...AREA_STYLE,
+        fillColor: choropleth.scale.color(summary),
+        fillOpacity: choropleth.scale.opacity(summary),
+      }
+      const polygon = leaflet.polygon(summary.area.polygons, style)
+      polygon
+        .bindTooltip(areaTooltip(summary, getClusterLabel), { sticky: true })
+        .on("mouseover", () => polygon.setStyle({ color: "#1e3a8a", weight: 3 }))
+        .on("mouseout", () => polygon.setStyle(style))
+      group.addLayer(polygon)
+    })
+    // Keep the areas below the hexagon grid and the drawn filter shape
+    choroplethLayerRef.current = group.addTo(map)
+    group.eachLayer((layer: any) => layer.bringToBack())
+  }, [map, leaflet, choropleth, getClusterLabel])
+
+  // Hexagon grid, rebuilt when the binned cells or their coloring change
+  useEffect(() => {
+    if (!map || !leaflet) return
+    if (hexLayerRef.current) {
+      map.removeLayer(hexLayerRef.current)
+      hexLayerRef.current = null
+    }
+    if (!hexbin?.cells.length) return
+    const group = leaflet.layerGroup()
+    hexbin.cells.forEach((cell) => {
+      const polygon = leaflet.polygon(cell.corners, { ...HEX_STYLE, fillColor: hexbin.scale.color(cell) })
+      polygon
+        .bindTooltip(hexTooltip(cell, getClusterLabel), { sticky: true })
+        .on("mouseover", () => polygon.setStyle({ color: "#1e3a8a", weight: 2 }).bringToFront())
+        .on("mouseout", () => polygon.setStyle({ color: HEX_STYLE.color, weight: HEX_STYLE.weight }))
+      group.addLayer(polygon)
+    })
+    hexLayerRef.current = group.addTo(map)
+  }, [map, leaflet, hexbin, getClusterLabel])
+
+  useEffect(() => {
+    if (!map || !leaflet) return
+    if (hullLayerRef.current) {
+      map.removeLayer(hullLayerRef.current)
+      hullLayerRef.current = null
+    }
+    if (!hulls?.length) return
+    const group = leaflet.layerGroup()
+    hulls.forEach((hull) => {
+      const color = getClusterColor(hull.cluster)
+      const outliers = hull.excluded ? `, ${hull.excluded} outlier diabaikan` : ""
+      group.addLayer(
+        leaflet
+          .polygon(hull.points, { color, weight: 2, fillColor: color, fillOpacity: 0.15 })
+          .bindTooltip(`${escapeHtml(getClusterLabel(hull.cluster))}: ${hull.included} properti${outliers}`, { sticky: true }),
+      )
+    })
+    hullLayerRef.current = group.addTo(map)
+  }, [map, leaflet, hulls, getClusterColor, getClusterLabel])
+
+  useEffect(() => {
+    if (!map || !leaflet) return
+    if (highlightRef.current) {
+      map.removeLayer(highlightRef.current)
+      highlightRef.current = null
+    }
+    if (!highlightedProperty) return
+    highlightRef.current = leaflet
+      .circleMarker([highlightedProperty.latitude, highlightedProperty.longitude], {
+        radius: 18,
+        color: "#f59e0b",
+        weight: 4,
+        fillOpacity: 0.15,
+        interactive: false,
+      })
+      .addTo(map)
+  }, [map, leaflet, highlightedProperty])
+
+  // Follow view changes from outside the map; skipped when the map is already there (e.g. it reported the view itself)
+  useEffect(() => {
+    if (!map || !view) return
+    const center = map.getCenter()
+    const moved = Math.abs(center.lat - view.center[0]) > 1e-5 || Math.abs(center.lng - view.center[1]) > 1e-5
+    if (moved || map.getZoom() !== view.zoom) map.setView(view.center, view.zoom)
+  }, [map, view])
+
+  // Mirror the shape from props (restored dataset, reset, radius typed in the filter panel)
+  useEffect(() => {
+    const drawnItems = drawnItemsRef.current
+    if (!map || !leaflet || !drawnItems) return
+    const serialized = JSON.stringify(shape)
+    if (serialized === renderedShapeRef.current) return
+    drawnItems.clearLayers()
+    if (shape) drawnItems.addLayer(shapeToLayer(leaflet, shape))
+    renderedShapeRef.current = serialized
+  }, [map, leaflet, shape])
 
   // Fit bounds only when properties change
   // useEffect(() => {
@@ -146,9 +501,12 @@ export default function SimpleMapComponent({
   //   }
   // }, [map, leaflet, properties])
 
+  const restoredSelectionRef = useRef(restoredSelection)
+  restoredSelectionRef.current = restoredSelection
+
   // Pan/zoom to selected property only when it changes
   useEffect(() => {
-    if (!map || !leaflet || !selectedProperty) return
+    if (!map || !leaflet || !selectedProperty || selectedProperty === restoredSelectionRef.current) return
     map.setView([selectedProperty.latitude, selectedProperty.longitude], Math.max(map.getZoom(), 16), {
       animate: true,
     })
@@ -170,6 +528,7 @@ export default function SimpleMapComponent({
         rel="stylesheet"
         href="https://unpkg.com/leaflet.markercluster@1.5.3/dist/MarkerCluster.Default.css"
       />
+      <link rel="stylesheet" href="https://unpkg.com/leaflet-draw@1.0.4/dist/leaflet.draw.css" />
       <div id="map" className={`${className || "w-full h-full"} z-0`} />
     </>
   )
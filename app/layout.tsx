@@ -1,5 +1,6 @@
 import type { Metadata } from 'next'
 import './globals.css'
+import { DatasetProvider } from '@/components/dataset-provider'
 
 export const metadata: Metadata = {
   title: 'Real Estate Cluster',
@@ -14,7 +15,9 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en">
-      <body>{children}</body>
+      <body>
+        <DatasetProvider>{children}</DatasetProvider>
+      </body>
     </html>
   )
 }
@@ -2,15 +2,75 @@
 
 import type React from "react"
 
-import { useState, useEffect, useRef } from "react"
-import Papa from "papaparse"
-import { Upload, Filter, MapPin, Home, Currency } from "lucide-react"
+import { useState, useEffect, useRef, useMemo, useCallback, useDeferredValue } from "react"
+import { Upload, Download, Filter, MapPin, Home, Currency, Tags, Search, ArrowUp, ArrowDown, List } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { formatClusterLabel, getClusterIds, type ClusteringSettings } from "@/lib/clustering"
+import { getClusterColor } from "@/lib/cluster-colors"
 import dynamic from "next/dynamic"
+import Link from "next/link"
+import ReclusterPanel from "./components/ReclusterPanel"
+import ClusterProfiles from "./components/ClusterProfiles"
+import ImportReportDialog from "./components/ImportReportDialog"
+import ColumnMappingDialog from "./components/ColumnMappingDialog"
+import SheetPickerDialog from "./components/SheetPickerDialog"
+import RangeFilter from "./components/RangeFilter"
+import HighlightedText from "./components/HighlightedText"
+import PropertyTable from "./components/PropertyTable"
+import HeatmapControls from "./components/HeatmapControls"
+import HexbinControls from "./components/HexbinControls"
+import BoundaryControls from "./components/BoundaryControls"
+import HullControls from "./components/HullControls"
+import { useDataset } from "@/components/dataset-provider"
+import { useUrlState } from "@/hooks/use-url-state"
+import {
+  SUPPORTED_FILE_EXTENSIONS,
+  readCSV,
+  readJSON,
+  readWorkbook,
+  validateTable,
+  type ImportReport,
+  type RawTable,
+  type Workbook,
+} from "@/lib/property-import"
+import { identityMapping, isIdentityMapping, loadSavedMapping, saveMapping, type ColumnMapping } from "@/lib/column-mapping"
+import type { PropertyData } from "@/lib/property-schema"
+import {
+  DEFAULT_FILTERS,
+  RANGE_FIELDS,
+  SORT_FIELDS,
+  applyPropertyFilters,
+  applyViewportFilter,
+  getFieldBounds,
+  toggleHiddenCluster,
+  type PropertyFilters,
+  type RangeField,
+  type SortField,
+} from "@/lib/filters"
+import { readGeoJSON, toGeoJSON } from "@/lib/geojson"
+import { AMENITY_TAGS, getAmenityLabel, type AmenityTag } from "@/lib/amenities"
+import { describeShape, type MapBounds, type MapView, type SpatialShape } from "@/lib/spatial"
+import { DERIVED_METRICS } from "@/lib/derived-metrics"
+import { DEFAULT_HEATMAP_SETTINGS, type HeatmapSettings } from "@/lib/heatmap"
+import {
+  DEFAULT_CHOROPLETH_SETTINGS,
+  createAreaColorScale,
+  summarizeAreas,
+  type ChoroplethLayer,
+  type ChoroplethSettings,
+} from "@/lib/admin-boundaries"
+import { DEFAULT_HULL_SETTINGS, buildClusterHulls, type HullSettings } from "@/lib/hulls"
+import { DEFAULT_HEXBIN_SETTINGS, createHexColorScale, hexbin, type HexbinLayer, type HexbinSettings } from "@/lib/hexbin"
+import { toCSV, type ExportMetadata } from "@/lib/property-export"
+import { baseFileName, downloadFile } from "@/lib/utils"
 
 // Dynamically import map component to avoid SSR issues
 const MapComponent = dynamic(() => import("./components/SimpleMapComponent"), {
@@ -22,26 +82,9 @@ const MapComponent = dynamic(() => import("./components/SimpleMapComponent"), {
   ),
 })
 
-export interface PropertyData {
-  name: string
-  url: string
-  bedrooms: number
-  bathrooms: number
-  floors: number
-  land_area: number
-  building_area: number
-  longitude: number
-  latitude: number
-  price: number
-  cluster: number
-}
-
-const excludedCoordinates = [
-  { latitude: 0.0, longitude: 0.0 },
-  { latitude: 1.0, longitude: 1.0 },
-  { latitude: -6.919440, longitude: 180.0 },
-  { latitude: 20.0, longitude: 28.0 },
-]
+const SEARCH_RESULT_LIMIT = 8
+// Radix Select items cannot use an empty string as their value
+const UNSORTED = "__file_order__"
 
 // Utility to capitalize each word
 function capitalizeWords(str: string) {
@@ -49,110 +92,236 @@ function capitalizeWords(str: string) {
 }
 
 export default function RealEstateMap() {
-  const [properties, setProperties] = useState<PropertyData[]>([])
-  const [filteredProperties, setFilteredProperties] = useState<PropertyData[]>([])
+  const {
+    ready,
+    datasetId,
+    sourceName,
+    properties,
+    filters,
+    clusterNames,
+    clustering,
+    loadDataset,
+    applyClustering,
+    setFilters,
+    renameCluster,
+    boundaries,
+    setBoundaries,
+  } = useDataset()
   const [selectedProperty, setSelectedProperty] = useState<PropertyData | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [filters, setFilters] = useState({
-    cluster: "all",
-    minPrice: "",
-    maxPrice: "",
-    minBedrooms: "",
-  })
+  const [hoveredProperty, setHoveredProperty] = useState<PropertyData | null>(null)
+  const [heatmap, setHeatmap] = useState<HeatmapSettings>(DEFAULT_HEATMAP_SETTINGS)
+  const [hexbinSettings, setHexbinSettings] = useState<HexbinSettings>(DEFAULT_HEXBIN_SETTINGS)
+  const [choroplethSettings, setChoroplethSettings] = useState<ChoroplethSettings>(DEFAULT_CHOROPLETH_SETTINGS)
+  const [hullSettings, setHullSettings] = useState<HullSettings>(DEFAULT_HULL_SETTINGS)
+  const [importing, setImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [workbook, setWorkbook] = useState<Workbook | null>(null)
+  const [mappingTable, setMappingTable] = useState<RawTable | null>(null)
+  const [importReport, setImportReport] = useState<ImportReport | null>(null)
+  const loading = !ready || importing
 
   const fileInputRef = useRef<HTMLInputElement>(null)
 
-  // Load sample data on component mount
-  useEffect(() => {
-    loadSampleData()
-  }, [])
+  const clusterIds = useMemo(() => getClusterIds(properties), [properties])
+  const getClusterLabel = useCallback((cluster: number) => formatClusterLabel(cluster, clusterNames), [clusterNames])
 
-  // Apply filters when properties or filters change
+  // Drop hidden clusters that no longer exist in the loaded/re-clustered data
   useEffect(() => {
-    applyFilters()
-  }, [properties, filters])
+    if (filters.hiddenClusters.some((c) => !clusterIds.includes(c))) {
+      setFilters((prev) => ({ ...prev, hiddenClusters: prev.hiddenClusters.filter((c) => clusterIds.includes(c)) }))
+    }
+  }, [clusterIds, filters.hiddenClusters, setFilters])
+
+  const setShape = useCallback(
+    (shape: SpatialShape | null) => setFilters((prev) => ({ ...prev, shape })),
+    [setFilters],
+  )
+
+  // Latest map bounds, kept outside the filters so panning does not touch saved state while the toggle is off
+  const mapBoundsRef = useRef<MapBounds | null>(null)
+  const viewportActive = filters.viewport !== null
+  const { view: urlView, handleViewChange, missingDatasetId, restoredSelection } = useUrlState({
+    selectedProperty,
+    setSelectedProperty,
+  })
+  const handleBoundsChange = useCallback(
+    (bounds: MapBounds, view: MapView) => {
+      mapBoundsRef.current = bounds
+      if (viewportActive) setFilters((prev) => ({ ...prev, viewport: bounds }))
+      handleViewChange(view)
+    },
+    [viewportActive, setFilters, handleViewChange],
+  )
+  const setViewportActive = (active: boolean) =>
+    setFilters((prev) => ({ ...prev, viewport: active ? mapBoundsRef.current : null }))
+
+  const toggleCluster = useCallback(
+    (cluster: number) =>
+      setFilters((prev) => ({ ...prev, hiddenClusters: toggleHiddenCluster(prev.hiddenClusters, cluster) })),
+    [setFilters],
+  )
+
+  const amenityCounts = useMemo(() => {
+    const counts = Object.fromEntries(AMENITY_TAGS.map(({ key }) => [key, 0])) as Record<AmenityTag, number>
+    properties.forEach((p) => p.amenities.forEach((tag) => counts[tag]++))
+    return counts
+  }, [properties])
+
+  // Slider bounds and histograms always describe the whole dataset, not the filtered subset
+  const fieldStats = useMemo(
+    () =>
+      Object.fromEntries(
+        RANGE_FIELDS.map(({ key }) => [
+          key,
+          {
+            values: properties.map((p) => p[key]).filter((v): v is number => v !== null),
+            bounds: getFieldBounds(properties, key),
+          },
+        ]),
+      ) as Record<RangeField, { values: number[]; bounds: [number, number] }>,
+    [properties],
+  )
+
+  // Typing in the search box stays responsive while the map catches up with the deferred filters
+  const deferredFilters = useDeferredValue(filters)
+  // The map keeps every attribute-filtered marker so panning stays smooth; counts, exports and
+  // search results are additionally limited to the visible area while "search this area" is on
+  const { query, hiddenClusters, amenities, ranges, shape, sort } = deferredFilters
+  // Rebuilt only when a filter other than the viewport changes, so panning does not redraw markers, hulls or heat
+  const attributeFilters = useMemo<PropertyFilters>(
+    () => ({ query, hiddenClusters, amenities, ranges, shape, sort, viewport: null }),
+    [query, hiddenClusters, amenities, ranges, shape, sort],
+  )
+  const mapProperties = useMemo(
+    () => applyPropertyFilters(properties, attributeFilters),
+    [properties, attributeFilters],
+  )
+  const filteredProperties = useMemo(
+    () => applyViewportFilter(mapProperties, deferredFilters),
+    [mapProperties, deferredFilters],
+  )
+
+  // The grid summarizes what the counts and table show, so it follows the viewport filter too
+  const hexCells = useMemo(
+    () => (hexbinSettings.enabled ? hexbin(filteredProperties, hexbinSettings.sizeKm) : []),
+    [hexbinSettings.enabled, hexbinSettings.sizeKm, filteredProperties],
+  )
+  const hexScale = useMemo(
+    () => createHexColorScale(hexCells, hexbinSettings.statistic),
+    [hexCells, hexbinSettings.statistic],
+  )
+  const hexbinLayer = useMemo<HexbinLayer | null>(
+    () => (hexbinSettings.enabled ? { cells: hexCells, scale: hexScale, showMarkers: hexbinSettings.showMarkers } : null),
+    [hexbinSettings.enabled, hexbinSettings.showMarkers, hexCells, hexScale],
+  )
+
+  // Footprints use every marker on the map, not just the visible area, so panning does not reshape them;
+  // slider drags are deferred because concave hulls of large clusters take a moment
+  const deferredHullSettings = useDeferredValue(hullSettings)
+  const clusterHulls = useMemo(
+    () => (deferredHullSettings.enabled ? buildClusterHulls(mapProperties, deferredHullSettings) : null),
+    [deferredHullSettings, mapProperties],
+  )
+
+  const areaSummaries = useMemo(
+    () => (choroplethSettings.enabled && boundaries ? summarizeAreas(filteredProperties, boundaries.areas) : null),
+    [choroplethSettings.enabled, boundaries, filteredProperties],
+  )
+  const areaScale = useMemo(
+    () => createAreaColorScale(areaSummaries?.summaries ?? [], choroplethSettings.statistic),
+    [areaSummaries, choroplethSettings.statistic],
+  )
+  const choroplethLayer = useMemo<ChoroplethLayer | null>(
+    () => (areaSummaries ? { summaries: areaSummaries.summaries, scale: areaScale } : null),
+    [areaSummaries, areaScale],
+  )
+
+  // Files already in our schema skip the mapping step unless a custom mapping was saved for them
+  const openTable = (table: RawTable) => {
+    if (isIdentityMapping(table.headers) && !loadSavedMapping(table.headers)) {
+      setImportReport(validateTable(table, identityMapping(table.headers)))
+    } else {
+      setMappingTable(table)
+    }
+  }
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Allow re-selecting the same file after a cancelled import
+    event.target.value = ""
+    if (!file) return
 
-  const loadSampleData = async () => {
+    setImporting(true)
+    setImportError(null)
     try {
-      const response = await fetch("/sample_properties.csv")
-      const csvText = await response.text()
-      parseCSV(csvText)
+      const extension = file.name.toLowerCase().slice(file.name.lastIndexOf("."))
+      if (extension === ".xlsx") {
+        const workbook = await readWorkbook(await file.arrayBuffer(), file.name)
+        if (workbook.sheetNames.length > 1) setWorkbook(workbook)
+        else openTable(workbook.readSheet(workbook.sheetNames[0]))
+      } else if (extension === ".geojson") {
+        openTable(readGeoJSON(JSON.parse(await file.text()), file.name))
+      } else if ([".json", ".ndjson", ".jsonl"].includes(extension)) {
+        openTable(readJSON(await file.text(), file.name))
+      } else {
+        openTable(await readCSV(await file.text(), file.name))
+      }
     } catch (error) {
-      console.error("Error loading sample data:", error)
-      setLoading(false)
+      console.error("File import error:", error)
+      setImportError(`Gagal membaca ${file.name}: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setImporting(false)
     }
   }
 
-  const parseCSV = (csvText: string) => {
-    Papa.parse(csvText, {
-      header: true,
-      skipEmptyLines: true,
-      transform: (value: string, field: string) => {
-        // Convert numeric fields
-        if (["bedrooms", "bathrooms", "floors", "land_area", "building_area", "price", "cluster"].includes(field)) {
-          return Number.parseFloat(value) || 0
-        }
-        if (["longitude", "latitude"].includes(field)) {
-          return Number.parseFloat(value) || 0
-        }
-        return value
-      },
-      complete: (results: any) => {
-        let data = results.data as PropertyData[]
-        // Exclude properties with coordinates in the exclusion list
-        data = data.filter(
-          (p) =>
-            !excludedCoordinates.some(
-              (ex) =>
-                Number(p.latitude).toFixed(6) === ex.latitude.toFixed(6) &&
-                Number(p.longitude).toFixed(6) === ex.longitude.toFixed(6)
-            )
-        )
-        setProperties(data)
-        setLoading(false)
-      },
-      error: (error: any) => {
-        console.error("CSV parsing error:", error)
-        setLoading(false)
-      },
-    })
+  const selectSheet = (workbook: Workbook, sheetName: string) => {
+    setWorkbook(null)
+    openTable(workbook.readSheet(sheetName))
   }
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (file) {
-      setLoading(true)
-      const reader = new FileReader()
-      reader.onload = (e) => {
-        const csvText = e.target?.result as string
-        parseCSV(csvText)
-      }
-      reader.readAsText(file)
-    }
+  const confirmMapping = (table: RawTable, mapping: ColumnMapping) => {
+    saveMapping(table.headers, mapping)
+    setMappingTable(null)
+    // Nothing is loaded until the import report has been reviewed
+    setImportReport(validateTable(table, mapping))
   }
 
-  const applyFilters = () => {
-    let filtered = [...properties]
+  const acceptImport = (report: ImportReport) => {
+    loadDataset(report.accepted, report.sourceName, report.clusterNames)
+    setSelectedProperty(null)
+    setImportReport(null)
+  }
 
-    // Filter by cluster
-    if (filters.cluster !== "all") {
-      filtered = filtered.filter((p) => p.cluster === Number.parseInt(filters.cluster))
-    }
+  const exportMetadata = (): ExportMetadata => ({
+    source: sourceName,
+    datasetId,
+    exportedAt: new Date().toISOString(),
+    rowCount: filteredProperties.length,
+    totalRows: properties.length,
+    filters,
+    clustering,
+    clusterNames,
+  })
 
-    // Filter by price range
-    if (filters.minPrice) {
-      filtered = filtered.filter((p) => p.price >= Number.parseFloat(filters.minPrice))
-    }
-    if (filters.maxPrice) {
-      filtered = filtered.filter((p) => p.price <= Number.parseFloat(filters.maxPrice))
-    }
+  const exportCSV = (withMetadata: boolean) => {
+    downloadFile(
+      toCSV(filteredProperties, clusterNames, withMetadata ? exportMetadata() : undefined),
+      `${baseFileName(sourceName)}-filtered.csv`,
+      "text/csv",
+    )
+  }
 
-    // Filter by minimum bedrooms
-    if (filters.minBedrooms) {
-      filtered = filtered.filter((p) => p.bedrooms >= Number.parseInt(filters.minBedrooms))
-    }
+  const exportGeoJSON = () => {
+    downloadFile(
+      JSON.stringify(toGeoJSON(filteredProperties, clusterNames)),
+      `${baseFileName(sourceName)}-filtered.geojson`,
+      "application/geo+json",
+    )
+  }
 
-    setFilteredProperties(filtered)
+  const handleClustered = (clustered: PropertyData[], settings: ClusteringSettings) => {
+    applyClustering(clustered, settings)
+    setSelectedProperty((prev) => (prev ? clustered.find((p) => p.url === prev.url && p.name === prev.name) || null : null))
   }
 
   const formatPrice = (price: number) => {
@@ -164,22 +333,13 @@ export default function RealEstateMap() {
     }).format(price)
   }
 
-  const getClusterColor = (cluster: number) => {
-    const colors = {
-      0: "#ef4444", // red
-      1: "#3b82f6", // blue
-      2: "#10b981", // green
-    }
-    return colors[cluster as keyof typeof colors] || "#6b7280"
+  // Slider labels need to stay short, e.g. "1,5 M" instead of the full rupiah amount
+  const formatCompactPrice = (price: number) => {
+    return new Intl.NumberFormat("id-ID", { notation: "compact", maximumFractionDigits: 1 }).format(price)
   }
 
   const resetFilters = () => {
-    setFilters({
-      cluster: "all",
-      minPrice: "",
-      maxPrice: "",
-      minBedrooms: "",
-    })
+    setFilters(DEFAULT_FILTERS)
   }
 
   if (loading) {
@@ -204,13 +364,26 @@ export default function RealEstateMap() {
               <h1 className="text-2xl font-bold text-gray-900">Real Estate Cluster</h1>
             </div>
             <div className="flex items-center space-x-4">
-              <a
+              <Link
                 href="/cluster-analysis"
                 className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-blue-600 text-white font-semibold shadow hover:bg-blue-700 transition text-sm"
               >
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path d="M9 17v-2a4 4 0 0 1 4-4h6" /><path d="M9 7V5a4 4 0 0 1 4-4h6" /></svg>
                 Analisis Kluster
-              </a>
+              </Link>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-2" disabled={!filteredProperties.length}>
+                    <Download className="h-4 w-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent className="z-[1100]">
+                  <DropdownMenuItem onSelect={() => exportCSV(false)}>CSV (hasil filter)</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => exportCSV(true)}>CSV + blok metadata</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={exportGeoJSON}>GeoJSON (hasil filter)</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <div className="flex items-center space-x-2">
                 <Button
                   variant="outline"
@@ -220,19 +393,28 @@ export default function RealEstateMap() {
                   type="button"
                 >
                   <Upload className="h-4 w-4" />
-                  Upload CSV
+                  Upload Data
                 </Button>
                 <Input
                   ref={fileInputRef}
-                  id="csv-upload"
+                  id="data-upload"
                   type="file"
-                  accept=".csv"
+                  accept={SUPPORTED_FILE_EXTENSIONS.join(",")}
                   onChange={handleFileUpload}
                   className="hidden"
                 />
+                <SheetPickerDialog workbook={workbook} onSelect={selectSheet} onCancel={() => setWorkbook(null)} />
+                <ColumnMappingDialog table={mappingTable} onConfirm={confirmMapping} onCancel={() => setMappingTable(null)} />
+                <ImportReportDialog report={importReport} onAccept={acceptImport} onCancel={() => setImportReport(null)} />
               </div>
+              {importError && <div className="text-sm text-red-600">{importError}</div>}
+              {missingDatasetId && (
+                <div className="text-sm text-amber-700">
+                  Dataset dari tautan ({missingDatasetId}) tidak tersimpan di browser ini; filter diterapkan ke dataset aktif.
+                </div>
+              )}
               <div className="text-sm text-gray-600">
-                {filteredProperties.length} of {properties.length} properties
+                {filteredProperties.length} of {properties.length} properties{viewportActive && " in view"} · {sourceName}
               </div>
             </div>
           </div>
@@ -247,14 +429,14 @@ export default function RealEstateMap() {
             <CardHeader>
               <CardTitle className="flex flex-col items-center gap-2">
                 <span className="text-l font-extrabold text-blue-900 tracking-tight text-center">
-                  {capitalizeWords(selectedProperty?.name || "")}
+                  <HighlightedText text={capitalizeWords(selectedProperty?.name || "")} query={filters.query} />
                 </span>
                 {selectedProperty && (
                   <span
                     className="mt-2 px-4 py-1 rounded-full text-xs font-semibold shadow-md transition-transform duration-200 hover:scale-105"
                     style={{ backgroundColor: getClusterColor(selectedProperty.cluster), color: '#fff' }}
                   >
-                    Cluster {selectedProperty.cluster}
+                    {getClusterLabel(selectedProperty.cluster)}
                   </span>
                 )}
               </CardTitle>
@@ -295,6 +477,16 @@ export default function RealEstateMap() {
                       <span>{selectedProperty.building_area} m² Bangunan</span>
                     </div>
                   </div>
+                  {/* Amenity tags */}
+                  {selectedProperty.amenities.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {selectedProperty.amenities.map((tag) => (
+                        <Badge key={tag} variant="secondary" className="bg-blue-100 text-blue-800 hover:bg-blue-100">
+                          {getAmenityLabel(tag)}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
                   {/* Price */}
                   <div className="pt-6 border-t border-gray-200/60 mt-6">
                     <div className="flex items-center gap-2 mb-1">
@@ -303,6 +495,23 @@ export default function RealEstateMap() {
                     <p className="text-3xl font-extrabold bg-gradient-to-r from-green-500 to-blue-500 bg-clip-text text-transparent tracking-tight">
                       {formatPrice(selectedProperty.price)}
                     </p>
+                    <div className="mt-3 grid grid-cols-3 gap-2 text-xs text-gray-600">
+                      {DERIVED_METRICS.map(({ key, label }) => {
+                        const value = selectedProperty[key]
+                        return (
+                          <div key={key}>
+                            <p className="font-semibold text-gray-700">{label}</p>
+                            <p className="text-blue-900">
+                              {value === null
+                                ? "-"
+                                : key === "building_land_ratio"
+                                  ? value.toFixed(2)
+                                  : formatPrice(value)}
+                            </p>
+                          </div>
+                        )
+                      })}
+                    </div>
                   </div>
                   {/* Coordinates */}
                   <div className="pt-6 border-t border-gray-200/60">
@@ -320,13 +529,51 @@ export default function RealEstateMap() {
               )}
             </CardContent>
           </Card>
+
+          {/* Property list */}
+          <Card className="p-6 bg-white/30 border-0">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-blue-900 font-bold text-lg">
+                <List className="h-5 w-5" />
+                Daftar Properti ({filteredProperties.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PropertyTable
+                properties={filteredProperties}
+                selectedProperty={selectedProperty}
+                sort={filters.sort}
+                onSortChange={(sort) => setFilters((prev) => ({ ...prev, sort }))}
+                onSelect={setSelectedProperty}
+                onHover={setHoveredProperty}
+                getClusterColor={getClusterColor}
+                getClusterLabel={getClusterLabel}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Re-clustering */}
+          <ReclusterPanel properties={properties} onClustered={handleClustered} />
+
+          {/* Cluster names & profiles */}
+          <Card className="p-6 bg-white/30 border-0">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-blue-900 font-bold text-lg">
+                <Tags className="h-5 w-5" />
+                Profil Cluster
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ClusterProfiles properties={properties} names={clusterNames} onRename={renameCluster} />
+            </CardContent>
+          </Card>
         </div>
 
         {/* Right Panel: Map with Filter Overlay */}
         <div className="flex-1 h-full relative">
           {/* Filter Panel Overlay */}
           <div className="fixed top-24 right-6 z-[1000] w-80 max-w-full">
-            <Card className="bg-white/70 backdrop-blur-lg shadow-2xl rounded-3xl border-0 p-6">
+            <Card className="max-h-[calc(100vh-8rem)] overflow-y-auto bg-white/70 backdrop-blur-lg shadow-2xl rounded-3xl border-0 p-6">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2 text-blue-900 font-bold text-xl">
                   <Filter className="h-5 w-5" />
@@ -335,65 +582,208 @@ export default function RealEstateMap() {
               </CardHeader>
               <CardContent className="space-y-6">
                 <div>
-                  <Label htmlFor="cluster-filter" className="text-blue-800 font-semibold">Cluster</Label>
-                  <Select
-                    value={filters.cluster}
-                    onValueChange={(value) => setFilters((prev) => ({ ...prev, cluster: value }))}
-                  >
-                    <SelectTrigger className="mt-2 bg-white/80 border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-400">
-                      <SelectValue placeholder="All clusters" />
-                    </SelectTrigger>
-                    <SelectContent className="z-[1100]">
-                      <SelectItem value="all">All Clusters</SelectItem>
-                      <SelectItem value="0">Cluster 0</SelectItem>
-                      <SelectItem value="1">Cluster 1</SelectItem>
-                      <SelectItem value="2">Cluster 2</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="property-search" className="text-blue-800 font-semibold">Cari Properti</Label>
+                  <div className="relative mt-2">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-blue-400" />
+                    <Input
+                      id="property-search"
+                      type="search"
+                      placeholder="mis. furnished buah batu"
+                      value={filters.query}
+                      onChange={(e) => setFilters((prev) => ({ ...prev, query: e.target.value }))}
+                      className="pl-9 bg-white/80 border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-400"
+                    />
+                  </div>
+                  {filters.query.trim() && (
+                    <div className="mt-2 max-h-48 overflow-y-auto rounded-lg border border-blue-100 bg-white/80">
+                      {filteredProperties.length ? (
+                        filteredProperties.slice(0, SEARCH_RESULT_LIMIT).map((property, index) => (
+                          <button
+                            key={`${property.url}-${index}`}
+                            type="button"
+                            onClick={() => setSelectedProperty(property)}
+                            className="block w-full px-3 py-2 text-left text-xs text-blue-900 hover:bg-blue-50 border-b border-blue-50 last:border-0"
+                          >
+                            <HighlightedText text={property.name} query={filters.query} />
+                          </button>
+                        ))
+                      ) : (
+                        <p className="px-3 py-2 text-xs text-gray-500">Tidak ada properti yang cocok</p>
+                      )}
+                      {filteredProperties.length > SEARCH_RESULT_LIMIT && (
+                        <p className="px-3 py-2 text-xs text-gray-500">
+                          +{filteredProperties.length - SEARCH_RESULT_LIMIT} lainnya di peta
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <div>
-                  <Label htmlFor="min-price" className="text-blue-800 font-semibold">Harga Minimal (IDR)</Label>
-                  <Input
-                    id="min-price"
-                    type="number"
-                    placeholder="0"
-                    value={filters.minPrice}
-                    onChange={(e) => setFilters((prev) => ({ ...prev, minPrice: e.target.value }))}
-                    className="mt-2 bg-white/80 border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-400"
-                  />
+                  <div className="flex items-center justify-between">
+                    <Label className="text-blue-800 font-semibold">Cluster</Label>
+                    <div className="flex gap-2 text-xs">
+                      <button
+                        type="button"
+                        className="text-blue-700 hover:underline"
+                        onClick={() => setFilters((prev) => ({ ...prev, hiddenClusters: [] }))}
+                      >
+                        Semua
+                      </button>
+                      <button
+                        type="button"
+                        className="text-blue-700 hover:underline"
+                        onClick={() => setFilters((prev) => ({ ...prev, hiddenClusters: clusterIds }))}
+                      >
+                        Kosongkan
+                      </button>
+                    </div>
+                  </div>
+                  <div className="mt-2 space-y-2">
+                    {clusterIds.map((cluster) => (
+                      <label key={cluster} className="flex items-center gap-2 text-sm text-blue-900">
+                        <Checkbox
+                          checked={!filters.hiddenClusters.includes(cluster)}
+                          onCheckedChange={() => toggleCluster(cluster)}
+                        />
+                        {getClusterLabel(cluster)}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="viewport-filter" className="text-blue-800 font-semibold">
+                    Cari di area peta ini
+                  </Label>
+                  <Switch id="viewport-filter" checked={viewportActive} onCheckedChange={setViewportActive} />
                 </div>
 
                 <div>
-                  <Label htmlFor="max-price" className="text-blue-800 font-semibold">Harga Maksimal (IDR)</Label>
-                  <Input
-                    id="max-price"
-                    type="number"
-                    placeholder="No limit"
-                    value={filters.maxPrice}
-                    onChange={(e) => setFilters((prev) => ({ ...prev, maxPrice: e.target.value }))}
-                    className="mt-2 bg-white/80 border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-400"
-                  />
+                  <Label className="text-blue-800 font-semibold">Area</Label>
+                  {filters.shape ? (
+                    <div className="mt-2 space-y-2 rounded-lg border border-blue-200 bg-white/80 p-3 text-sm text-blue-900">
+                      <div className="flex items-center justify-between gap-2">
+                        <span>{describeShape(filters.shape)}</span>
+                        <button type="button" className="text-xs text-red-600 hover:underline" onClick={() => setShape(null)}>
+                          Hapus
+                        </button>
+                      </div>
+                      {filters.shape.type === "circle" && (
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor="shape-radius" className="text-xs text-blue-800">Radius (km)</Label>
+                          <Input
+                            id="shape-radius"
+                            type="number"
+                            min={0.1}
+                            step={0.1}
+                            value={Number(filters.shape.radiusKm.toFixed(2))}
+                            onChange={(e) => {
+                              const radiusKm = Number.parseFloat(e.target.value)
+                              if (filters.shape?.type === "circle" && radiusKm > 0) {
+                                setShape({ ...filters.shape, radiusKm })
+                              }
+                            }}
+                            className="h-8 bg-white/80 border border-blue-200 rounded-lg"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="mt-2 text-xs text-gray-500">
+                      Gambar poligon, persegi panjang atau lingkaran dengan alat di kiri atas peta untuk membatasi area.
+                    </p>
+                  )}
                 </div>
 
                 <div>
-                  <Label htmlFor="min-bedrooms" className="text-blue-800 font-semibold">Kamar Tidur Minimal</Label>
-                  <Select
-                    value={filters.minBedrooms}
-                    onValueChange={(value) => setFilters((prev) => ({ ...prev, minBedrooms: value }))}
-                  >
-                    <SelectTrigger className="mt-2 bg-white/80 border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-400">
-                      <SelectValue placeholder="Any" />
-                    </SelectTrigger>
-                    <SelectContent className="z-[1100]">
-                      <SelectItem value="any">Any</SelectItem>
-                      <SelectItem value="1">1+</SelectItem>
-                      <SelectItem value="2">2+</SelectItem>
-                      <SelectItem value="3">3+</SelectItem>
-                      <SelectItem value="4">4+</SelectItem>
-                      <SelectItem value="5">5+</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label className="text-blue-800 font-semibold">Fasilitas</Label>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {AMENITY_TAGS.map(({ key, label }) => {
+                      const active = filters.amenities.includes(key)
+                      return (
+                        <button
+                          key={key}
+                          type="button"
+                          aria-pressed={active}
+                          onClick={() =>
+                            setFilters((prev) => ({
+                              ...prev,
+                              amenities: active ? prev.amenities.filter((t) => t !== key) : [...prev.amenities, key],
+                            }))
+                          }
+                          className={`rounded-full border px-2.5 py-0.5 text-xs font-semibold transition-colors ${
+                            active
+                              ? "border-blue-600 bg-blue-600 text-white"
+                              : "border-blue-200 bg-white/80 text-blue-800 hover:bg-blue-50"
+                          }`}
+                        >
+                          {label} <span className="opacity-70">{amenityCounts[key]}</span>
+                        </button>
+                      )
+                    })}
+                  </div>
+                </div>
+
+                {RANGE_FIELDS.map((field) => (
+                  <RangeFilter
+                    key={field.key}
+                    label={field.unit ? `${field.label} (${field.unit})` : field.label}
+                    values={fieldStats[field.key].values}
+                    bounds={fieldStats[field.key].bounds}
+                    value={filters.ranges[field.key]}
+                    integer={field.integer}
+                    format={field.unit?.startsWith("IDR") ? formatCompactPrice : undefined}
+                    onChange={(range) =>
+                      setFilters((prev) => ({ ...prev, ranges: { ...prev.ranges, [field.key]: range } }))
+                    }
+                  />
+                ))}
+
+                <div>
+                  <Label className="text-blue-800 font-semibold">Urutkan</Label>
+                  <div className="mt-2 flex gap-2">
+                    <Select
+                      value={filters.sort?.field ?? UNSORTED}
+                      onValueChange={(value) =>
+                        setFilters((prev) => ({
+                          ...prev,
+                          sort:
+                            value === UNSORTED
+                              ? null
+                              : { field: value as SortField, direction: prev.sort?.direction ?? "asc" },
+                        }))
+                      }
+                    >
+                      <SelectTrigger className="bg-white/80 border border-blue-200 rounded-lg focus:ring-2 focus:ring-blue-400">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="z-[1100]">
+                        <SelectItem value={UNSORTED}>Urutan file</SelectItem>
+                        {SORT_FIELDS.map(({ key, label }) => (
+                          <SelectItem key={key} value={key}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      disabled={!filters.sort}
+                      title={filters.sort?.direction === "desc" ? "Menurun" : "Menaik"}
+                      onClick={() =>
+                        setFilters((prev) =>
+                          prev.sort
+                            ? { ...prev, sort: { ...prev.sort, direction: prev.sort.direction === "asc" ? "desc" : "asc" } }
+                            : prev,
+                        )
+                      }
+                      className="shrink-0 bg-white/80 border border-blue-200"
+                    >
+                      {filters.sort?.direction === "desc" ? <ArrowDown className="h-4 w-4" /> : <ArrowUp className="h-4 w-4" />}
+                    </Button>
+                  </div>
                 </div>
 
                 <Button onClick={resetFilters} variant="outline" className="w-full rounded-lg bg-gradient-to-r from-blue-100 to-blue-200 text-blue-900 font-semibold shadow hover:from-blue-200 hover:to-blue-300 transition">
@@ -404,24 +794,63 @@ export default function RealEstateMap() {
                 <div className="pt-6 border-t border-gray-200/60">
                   <h4 className="font-medium mb-2 text-blue-900">Legenda Cluster</h4>
                   <div className="space-y-2">
-                    {[0, 1, 2].map((cluster) => (
-                      <div key={cluster} className="flex items-center gap-2">
+                    {clusterIds.map((cluster) => (
+                      <button
+                        key={cluster}
+                        type="button"
+                        onClick={() => toggleCluster(cluster)}
+                        title="Klik untuk menampilkan/menyembunyikan cluster"
+                        className={`flex items-center gap-2 w-full text-left transition-opacity ${
+                          filters.hiddenClusters.includes(cluster) ? "opacity-40" : ""
+                        }`}
+                      >
                         <div className="w-4 h-4 rounded-full border-2 border-white shadow" style={{ backgroundColor: getClusterColor(cluster) }} />
-                        <span className="text-sm text-blue-900">Cluster {cluster}</span>
-                      </div>
+                        <span className="text-sm text-blue-900">{getClusterLabel(cluster)}</span>
+                      </button>
                     ))}
                   </div>
                 </div>
               </CardContent>
             </Card>
           </div>
+          {/* Map layers */}
+          <div className="absolute bottom-6 left-4 z-[1000] flex max-h-[calc(100vh-8rem)] flex-col gap-3 overflow-y-auto">
+            <BoundaryControls
+              value={choroplethSettings}
+              onChange={setChoroplethSettings}
+              boundaries={boundaries}
+              onBoundariesChange={setBoundaries}
+              scale={areaScale}
+              unassigned={areaSummaries?.unassigned}
+              formatValue={choroplethSettings.statistic === "count" ? (value) => String(Math.round(value)) : formatCompactPrice}
+            />
+            <HullControls value={hullSettings} onChange={setHullSettings} />
+            <HexbinControls
+              value={hexbinSettings}
+              onChange={setHexbinSettings}
+              scale={hexScale}
+              formatValue={hexbinSettings.statistic === "count" ? (value) => String(Math.round(value)) : formatCompactPrice}
+            />
+            <HeatmapControls value={heatmap} onChange={setHeatmap} />
+          </div>
           {/* Map Area */}
           <div className="w-full h-full">
             <MapComponent
-              properties={filteredProperties}
+              properties={mapProperties}
               selectedProperty={selectedProperty}
               onPropertySelect={setSelectedProperty}
               getClusterColor={getClusterColor}
+              getClusterLabel={getClusterLabel}
+              shape={filters.shape}
+              onShapeChange={setShape}
+              onBoundsChange={handleBoundsChange}
+              highlightedProperty={hoveredProperty}
+              view={urlView}
+              restoredSelection={restoredSelection}
+              heatmap={heatmap}
+              hexbin={hexbinLayer}
+              choropleth={choroplethLayer}
+              hulls={clusterHulls}
               className="w-full h-full"
             />
           </div>
@@ -0,0 +1,213 @@
+"use client"
+
+import * as React from "react"
+import { deriveFields, type PropertyData } from "@/lib/property-schema"
+import { type ClusterNames, type ClusteringSettings } from "@/lib/clustering"
+import { parsePropertiesCSV } from "@/lib/property-import"
+import {
+  loadActiveDataset,
+  loadBoundaries,
+  loadDataset as loadStoredDataset,
+  saveBoundaries,
+  saveDatasetRows,
+  saveDatasetState,
+  type StoredDataset,
+} from "@/lib/dataset-db"
+import type { AdminBoundaries } from "@/lib/admin-boundaries"
+import { DEFAULT_FILTERS, normalizeFilters, type PropertyFilters } from "@/lib/filters"
+
+const SAMPLE_DATASET_NAME = "sample_properties.csv"
+const SAMPLE_DATASET_URL = `/${SAMPLE_DATASET_NAME}`
+const SAMPLE_DATASET_ID = "sample"
+const PERSIST_DELAY_MS = 300
+
+interface DatasetContextValue {
+  ready: boolean
+  datasetId: string | null
+  sourceName: string
+  properties: PropertyData[]
+  filters: PropertyFilters
+  clusterNames: ClusterNames
+  clustering: ClusteringSettings | null
+  // Replace the dataset (new upload); filters start fresh and cluster names come from the file, if any
+  loadDataset: (properties: PropertyData[], sourceName: string, clusterNames?: ClusterNames) => void
+  // Store re-clustered rows and the settings that produced them; cluster names are dropped
+  applyClustering: (properties: PropertyData[], settings: ClusteringSettings) => void
+  setFilters: React.Dispatch<React.SetStateAction<PropertyFilters>>
+  renameCluster: (cluster: number, name: string) => void
+  // Switch to a dataset saved earlier in this browser; resolves false when it is not stored here
+  openDataset: (id: string) => Promise<boolean>
+  // Kecamatan/kelurahan polygons for the choropleth and per-area summaries; null until a file is loaded
+  boundaries: AdminBoundaries | null
+  setBoundaries: (boundaries: AdminBoundaries | null) => void
+}
+
+const DatasetContext = React.createContext<DatasetContextValue | null>(null)
+
+// Stored datasets may predate newer derived fields and filter shapes
+function restoreDataset(stored: StoredDataset): StoredDataset {
+  return {
+    ...stored,
+    properties: stored.properties.map(deriveFields),
+    filters: normalizeFilters(stored.filters),
+  }
+}
+
+async function loadSampleDataset(): Promise<StoredDataset> {
+  const response = await fetch(SAMPLE_DATASET_URL)
+  // The sample's invalid rows (e.g. placeholder coordinates) are known and dropped silently
+  const report = await parsePropertiesCSV(await response.text(), SAMPLE_DATASET_NAME)
+  return {
+    id: SAMPLE_DATASET_ID,
+    sourceName: SAMPLE_DATASET_NAME,
+    properties: report.accepted,
+    clusterNames: {},
+    clustering: null,
+    filters: DEFAULT_FILTERS,
+    updatedAt: Date.now(),
+  }
+}
+
+function createDatasetId(sourceName: string) {
+  return `${sourceName.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}-${Date.now().toString(36)}`
+}
+
+export function DatasetProvider({ children }: { children: React.ReactNode }) {
+  const [ready, setReady] = React.useState(false)
+  const [dataset, setDataset] = React.useState<StoredDataset | null>(null)
+  const [boundaries, setBoundariesState] = React.useState<AdminBoundaries | null>(null)
+
+  const savedRowsRef = React.useRef<PropertyData[] | null>(null)
+
+  // Datasets read back from the store do not need their rows written again
+  const setRestoredDataset = React.useCallback((stored: StoredDataset) => {
+    const restored = restoreDataset(stored)
+    savedRowsRef.current = restored.properties
+    setDataset(restored)
+  }, [])
+
+  // Restore the last active dataset, falling back to the bundled sample
+  React.useEffect(() => {
+    const restore = async () => {
+      try {
+        const stored = await loadActiveDataset()
+        if (stored) {
+          setRestoredDataset(stored)
+          return
+        }
+      } catch (error) {
+        console.error("Error restoring dataset:", error)
+      }
+      try {
+        setDataset(await loadSampleDataset())
+      } catch (error) {
+        console.error("Error loading sample data:", error)
+      }
+    }
+    restore().finally(() => setReady(true))
+    loadBoundaries()
+      .then(setBoundariesState)
+      .catch((error) => console.error("Error restoring boundaries:", error))
+  }, [setRestoredDataset])
+
+  // Rows are written only when they change (upload, re-clustering), not on every filter edit
+  React.useEffect(() => {
+    if (!dataset || dataset.properties === savedRowsRef.current) return
+    savedRowsRef.current = dataset.properties
+    saveDatasetRows(dataset).catch((error) => console.error("Error saving dataset:", error))
+  }, [dataset])
+
+  // Filters and names are saved debounced, as they change per keystroke and per map move
+  React.useEffect(() => {
+    if (!dataset) return
+    const timeout = setTimeout(() => {
+      saveDatasetState(dataset).catch((error) => console.error("Error saving dataset state:", error))
+    }, PERSIST_DELAY_MS)
+    return () => clearTimeout(timeout)
+  }, [dataset])
+
+  const update = React.useCallback((changes: (prev: StoredDataset) => Partial<StoredDataset>) => {
+    setDataset((prev) => (prev ? { ...prev, ...changes(prev), updatedAt: Date.now() } : prev))
+  }, [])
+
+  const loadDataset = React.useCallback((properties: PropertyData[], sourceName: string, clusterNames: ClusterNames = {}) => {
+    setDataset({
+      id: createDatasetId(sourceName),
+      sourceName,
+      properties,
+      clusterNames,
+      clustering: null,
+      filters: DEFAULT_FILTERS,
+      updatedAt: Date.now(),
+    })
+  }, [])
+
+  const applyClustering = React.useCallback(
+    (properties: PropertyData[], clustering: ClusteringSettings) =>
+      update(() => ({ properties, clustering, clusterNames: {} })),
+    [update],
+  )
+
+  const setFilters = React.useCallback<React.Dispatch<React.SetStateAction<PropertyFilters>>>(
+    (action) => update((prev) => ({ filters: typeof action === "function" ? action(prev.filters) : action })),
+    [update],
+  )
+
+  const renameCluster = React.useCallback(
+    (cluster: number, name: string) => update((prev) => ({ clusterNames: { ...prev.clusterNames, [cluster]: name } })),
+    [update],
+  )
+
+  const openDataset = React.useCallback(async (id: string) => {
+    try {
+      const stored = await loadStoredDataset(id)
+      if (stored) {
+        setRestoredDataset(stored)
+        return true
+      }
+      // The bundled sample can always be rebuilt, so links to it work in any browser
+      if (id === SAMPLE_DATASET_ID) {
+        setDataset(await loadSampleDataset())
+        return true
+      }
+      return false
+    } catch (error) {
+      console.error("Error opening dataset:", error)
+      return false
+    }
+  }, [setRestoredDataset])
+
+  const setBoundaries = React.useCallback((next: AdminBoundaries | null) => {
+    setBoundariesState(next)
+    saveBoundaries(next).catch((error) => console.error("Error saving boundaries:", error))
+  }, [])
+
+  const value = React.useMemo<DatasetContextValue>(
+    () => ({
+      ready,
+      datasetId: dataset?.id ?? null,
+      sourceName: dataset?.sourceName ?? "",
+      properties: dataset?.properties ?? [],
+      filters: dataset?.filters ?? DEFAULT_FILTERS,
+      clusterNames: dataset?.clusterNames ?? {},
+      // Datasets stored before clustering settings were tracked have no such field
+      clustering: dataset?.clustering ?? null,
+      loadDataset,
+      applyClustering,
+      setFilters,
+      renameCluster,
+      openDataset,
+      boundaries,
+      setBoundaries,
+    }),
+    [ready, dataset, loadDataset, applyClustering, setFilters, renameCluster, openDataset, boundaries, setBoundaries],
+  )
+
+  return <DatasetContext.Provider value={value}>{children}</DatasetContext.Provider>
+}
+
+export function useDataset() {
+  const context = React.useContext(DatasetContext)
+  if (!context) throw new Error("useDataset must be used within a DatasetProvider")
+  return context
+}
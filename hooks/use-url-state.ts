@@ -0,0 +1,122 @@
+import * as React from "react"
+import { useDataset } from "@/components/dataset-provider"
+import type { PropertyData } from "@/lib/property-schema"
+import type { MapView } from "@/lib/spatial"
+import { decodeUrlState, encodeUrlState, hasUrlState, propertyKey, type UrlState } from "@/lib/url-state"
+
+// Filter edits settle for this long before they become a history entry, so typing is one step back
+const HISTORY_DELAY_MS = 400
+
+interface UrlStateOptions {
+  selectedProperty: PropertyData | null
+  setSelectedProperty: (property: PropertyData | null) => void
+}
+
+// Keeps dataset id, filters, selection and map view in the query string. Filter and selection changes
+// push history entries (back/forward replays them); panning the map only replaces the current entry.
+export function useUrlState({ selectedProperty, setSelectedProperty }: UrlStateOptions) {
+  const { ready, datasetId, properties, filters, setFilters, openDataset } = useDataset()
+  const [view, setView] = React.useState<MapView | null>(null)
+  const [restored, setRestored] = React.useState(false)
+  const [missingDatasetId, setMissingDatasetId] = React.useState<string | null>(null)
+  const [pendingSelection, setPendingSelection] = React.useState<{
+    datasetId: string | null
+    key: string
+    // The link also had a map view, which the selection must not pan away from
+    keepView: boolean
+  } | null>(null)
+  const [restoredSelection, setRestoredSelection] = React.useState<PropertyData | null>(null)
+
+  const selectedKey = selectedProperty ? propertyKey(selectedProperty) : null
+  const currentViewRef = React.useRef<MapView | null>(null)
+  const lastHistoryKeyRef = React.useRef<string | null>(null)
+  const latestRef = React.useRef({ datasetId, filters, selectedKey })
+  latestRef.current = { datasetId, filters, selectedKey }
+
+  // Panning with "search this area" on rewrites the viewport bounds; that alone must not add history entries
+  const historyKey = (state: Omit<UrlState, "view">) =>
+    encodeUrlState({
+      ...state,
+      filters: { ...state.filters, viewport: state.filters.viewport && { southWest: [0, 0], northEast: [0, 0] } },
+      view: null,
+    })
+
+  const writeUrl = React.useCallback(() => {
+    const state = latestRef.current
+    const key = historyKey(state)
+    const search = encodeUrlState({ ...state, view: currentViewRef.current })
+    const url = `${window.location.pathname}${search ? `?${search}` : ""}`
+    if (lastHistoryKeyRef.current !== null && key !== lastHistoryKeyRef.current) {
+      window.history.pushState(null, "", url)
+    } else if (url !== `${window.location.pathname}${window.location.search}`) {
+      window.history.replaceState(null, "", url)
+    }
+    lastHistoryKeyRef.current = key
+  }, [])
+
+  const applyUrlState = React.useCallback(
+    async (state: UrlState) => {
+      lastHistoryKeyRef.current = historyKey(state)
+      let targetDatasetId = latestRef.current.datasetId
+      if (state.datasetId && state.datasetId !== targetDatasetId) {
+        const opened = await openDataset(state.datasetId)
+        setMissingDatasetId(opened ? null : state.datasetId)
+        if (opened) targetDatasetId = state.datasetId
+      } else {
+        setMissingDatasetId(null)
+      }
+      setFilters(state.filters)
+      if (state.selectedKey === null) setSelectedProperty(null)
+      else setPendingSelection({ datasetId: targetDatasetId, key: state.selectedKey, keepView: !!state.view })
+      if (state.view) {
+        currentViewRef.current = state.view
+        setView(state.view)
+      }
+    },
+    [openDataset, setFilters, setSelectedProperty],
+  )
+
+  // Restore once the stored dataset is ready; a bare URL keeps the stored state
+  React.useEffect(() => {
+    if (!ready || restored) return
+    const search = window.location.search
+    const restore = hasUrlState(search) ? applyUrlState(decodeUrlState(search)) : Promise.resolve()
+    restore.finally(() => setRestored(true))
+  }, [ready, restored, applyUrlState])
+
+  // The selection is looked up in the dataset, so it waits until the linked dataset is loaded
+  React.useEffect(() => {
+    if (!pendingSelection || pendingSelection.datasetId !== datasetId) return
+    const property = properties.find((p) => propertyKey(p) === pendingSelection.key) ?? null
+    setSelectedProperty(property)
+    setRestoredSelection(pendingSelection.keepView ? property : null)
+    setPendingSelection(null)
+  }, [pendingSelection, datasetId, properties, setSelectedProperty])
+
+  // Once the user selects something else, later selections pan the map again
+  React.useEffect(() => {
+    if (restoredSelection && selectedProperty !== restoredSelection) setRestoredSelection(null)
+  }, [restoredSelection, selectedProperty])
+
+  React.useEffect(() => {
+    if (!restored) return
+    const timer = setTimeout(writeUrl, HISTORY_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [restored, datasetId, filters, selectedKey, writeUrl])
+
+  React.useEffect(() => {
+    const onPopState = () => applyUrlState(decodeUrlState(window.location.search))
+    window.addEventListener("popstate", onPopState)
+    return () => window.removeEventListener("popstate", onPopState)
+  }, [applyUrlState])
+
+  const handleViewChange = React.useCallback(
+    (next: MapView) => {
+      currentViewRef.current = next
+      if (restored) writeUrl()
+    },
+    [restored, writeUrl],
+  )
+
+  return { view, handleViewChange, missingDatasetId, restoredSelection }
+}
@@ -0,0 +1,213 @@
+import type { Feature, Geometry, Position } from "geojson"
+import type { PropertyData } from "./property-schema"
+import { isGeoJSON } from "./geojson"
+import { getClusterColor } from "./cluster-colors"
+import { sequentialColor } from "./hexbin"
+import { pointInBounds, pointInPolygon, type LatLngTuple, type MapBounds } from "./spatial"
+import { median, quantile } from "./stats"
+
+// One kecamatan/kelurahan; each polygon is an outer ring followed by its holes
+export interface AdminArea {
+  // Feature index in the file; feature ids may repeat or be missing
+  id: string
+  name: string
+  polygons: LatLngTuple[][][]
+  bounds: MapBounds
+}
+
+export interface AdminBoundaries {
+  sourceName: string
+  // Attribute the area names were read from, null when areas are only numbered
+  nameField: string | null
+  areas: AdminArea[]
+}
+
+// Most specific level first: kelurahan files usually carry the kecamatan name as well
+const NAME_FIELD_CANDIDATES = [
+  "kelurahan",
+  "nama_kelurahan",
+  "desa",
+  "nama_desa",
+  "wadmkd",
+  "kecamatan",
+  "nama_kecamatan",
+  "wadmkc",
+  "namobj",
+  "name_4",
+  "name_3",
+  "name_2",
+  "nama",
+  "name",
+]
+
+const toLatLng = ([lng, lat]: Position): LatLngTuple => [lat, lng]
+
+function geometryPolygons(geometry: Geometry | null): LatLngTuple[][][] {
+  if (geometry?.type === "Polygon") return [geometry.coordinates.map((ring) => ring.map(toLatLng))]
+  if (geometry?.type === "MultiPolygon") {
+    return geometry.coordinates.map((polygon) => polygon.map((ring) => ring.map(toLatLng)))
+  }
+  return []
+}
+
+// A loop rather than Math.min(...values): detailed outer rings can exceed the argument limit
+function polygonsBounds(polygons: LatLngTuple[][][]): MapBounds {
+  let south = Infinity
+  let west = Infinity
+  let north = -Infinity
+  let east = -Infinity
+  polygons.forEach(([outer]) =>
+    outer.forEach(([lat, lng]) => {
+      if (lat < south) south = lat
+      if (lat > north) north = lat
+      if (lng < west) west = lng
+      if (lng > east) east = lng
+    }),
+  )
+  return { southWest: [south, west], northEast: [north, east] }
+}
+
+function findNameField(features: Feature[]) {
+  const keys = Array.from(new Set(features.flatMap((feature) => Object.keys(feature.properties || {}))))
+  for (const candidate of NAME_FIELD_CANDIDATES) {
+    const key = keys.find((k) => k.toLowerCase() === candidate)
+    if (key) return key
+  }
+  return keys.find((key) => features.some((feature) => typeof feature.properties?.[key] === "string")) ?? null
+}
+
+export function parseAdminBoundaries(value: unknown, sourceName: string): AdminBoundaries {
+  if (!isGeoJSON(value)) throw new Error("File batas wilayah harus berupa GeoJSON")
+  const features = (value.type === "FeatureCollection" ? value.features : [value]).filter(
+    (feature) => geometryPolygons(feature.geometry).length > 0,
+  )
+  if (!features.length) throw new Error("GeoJSON tidak berisi geometri Polygon atau MultiPolygon")
+
+  const nameField = findNameField(features)
+  const areas = features.map((feature, index) => {
+    const polygons = geometryPolygons(feature.geometry)
+    const name = nameField ? feature.properties?.[nameField] : null
+    return {
+      id: String(index),
+      name: name === null || name === undefined || name === "" ? `Wilayah ${index + 1}` : String(name),
+      polygons,
+      bounds: polygonsBounds(polygons),
+    }
+  })
+  return { sourceName, nameField, areas }
+}
+
+export function pointInArea(point: { latitude: number; longitude: number }, area: AdminArea) {
+  if (!pointInBounds(point, area.bounds)) return false
+  return area.polygons.some(
+    ([outer, ...holes]) => pointInPolygon(point, outer) && !holes.some((hole) => pointInPolygon(point, hole)),
+  )
+}
+
+export interface ClusterShare {
+  cluster: number
+  count: number
+}
+
+export interface AreaSummary {
+  area: AdminArea
+  count: number
+  medianPrice: number
+  medianPricePerBuildingM2: number
+  // Largest cluster first
+  clusterMix: ClusterShare[]
+}
+
+export interface AreaSummaries {
+  summaries: AreaSummary[]
+  // Properties outside every polygon
+  unassigned: number
+}
+
+// Spatial join: each property counts towards the first area that contains it
+export function summarizeAreas(properties: PropertyData[], areas: AdminArea[]): AreaSummaries {
+  const members: PropertyData[][] = areas.map(() => [])
+  let unassigned = 0
+  properties.forEach((p) => {
+    const index = areas.findIndex((a) => pointInArea(p, a))
+    if (index >= 0) members[index].push(p)
+    else unassigned++
+  })
+
+  const summaries = areas.map((area, index) => {
+    const inside = members[index]
+    const counts = new Map<number, number>()
+    inside.forEach((p) => counts.set(p.cluster, (counts.get(p.cluster) ?? 0) + 1))
+    return {
+      area,
+      count: inside.length,
+      medianPrice: median(inside.map((p) => p.price)),
+      medianPricePerBuildingM2: median(
+        inside.map((p) => p.price_per_building_m2).filter((v): v is number => v !== null),
+      ),
+      clusterMix: Array.from(counts, ([cluster, count]) => ({ cluster, count })).sort(
+        (a, b) => b.count - a.count || a.cluster - b.cluster,
+      ),
+    }
+  })
+  return { summaries, unassigned }
+}
+
+export type ChoroplethStatistic = "median_price" | "count" | "cluster_mix"
+
+export const CHOROPLETH_STATISTICS: { key: ChoroplethStatistic; label: string }[] = [
+  { key: "median_price", label: "Median harga" },
+  { key: "count", label: "Jumlah listing" },
+  { key: "cluster_mix", label: "Komposisi cluster" },
+]
+
+export interface ChoroplethSettings {
+  enabled: boolean
+  statistic: ChoroplethStatistic
+}
+
+export const DEFAULT_CHOROPLETH_SETTINGS: ChoroplethSettings = {
+  enabled: false,
+  statistic: "median_price",
+}
+
+const EMPTY_AREA_COLOR = "#d1d5db"
+
+export interface AreaColorScale {
+  color: (summary: AreaSummary) => string
+  // Fill opacity; in cluster-mix mode it follows how dominant the largest cluster is
+  opacity: (summary: AreaSummary) => number
+  // Domain of the sequential scale, for the legend; NaN in cluster-mix mode
+  min: number
+  max: number
+}
+
+const AREA_OPACITY = 0.6
+
+// Same yellow-to-red scale as the hexagon grid; areas without listings stay grey
+export function createAreaColorScale(summaries: AreaSummary[], statistic: ChoroplethStatistic): AreaColorScale {
+  if (statistic === "cluster_mix") {
+    return {
+      color: (s) => (s.clusterMix.length ? getClusterColor(s.clusterMix[0].cluster) : EMPTY_AREA_COLOR),
+      opacity: (s) => (s.count ? 0.2 + 0.6 * (s.clusterMix[0].count / s.count) : 0.3),
+      min: NaN,
+      max: NaN,
+    }
+  }
+  const valueOf = (s: AreaSummary) => (statistic === "count" ? s.count : s.medianPrice)
+  const values = summaries.filter((s) => s.count > 0).map(valueOf)
+  const min = quantile(values, 0.05)
+  const max = quantile(values, 0.95)
+  return {
+    color: (s) => (s.count ? sequentialColor(valueOf(s), min, max) : EMPTY_AREA_COLOR),
+    opacity: (s) => (s.count ? AREA_OPACITY : 0.3),
+    min,
+    max,
+  }
+}
+
+// What the map needs to draw the choropleth
+export interface ChoroplethLayer {
+  summaries: AreaSummary[]
+  scale: AreaColorScale
+}
@@ -0,0 +1,44 @@
+export type AmenityTag =
+  | "furnished"
+  | "siap_huni"
+  | "dekat_tol"
+  | "komplek"
+  | "perumahan_cluster"
+  | "kolam_renang"
+  | "strategis"
+  | "minimalis"
+
+interface AmenityRule {
+  key: AmenityTag
+  label: string
+  pattern: RegExp
+  // Phrases that mention the keyword but deny it, e.g. "non furnished"
+  exclude?: RegExp
+}
+
+const AMENITY_RULES: AmenityRule[] = [
+  {
+    key: "furnished",
+    label: "Furnished",
+    pattern: /\b(?:(?:full|fully|semi)[\s-]?)?furnish(?:ed)?\b|\bfurnitur/i,
+    exclude: /\b(?:non|un|tanpa|belum|no)[\s-]?furnish/i,
+  },
+  { key: "siap_huni", label: "Siap Huni", pattern: /\bsiap\s*huni\b|\bready\s+to\s+move\b/i },
+  { key: "dekat_tol", label: "Dekat Tol", pattern: /\b(?:dekat|akses|exit|gerbang|pintu)\s+tol\b/i },
+  { key: "komplek", label: "Komplek / Perumahan", pattern: /\b(?:kompleks?|komp|perumahan|perum)\b/i },
+  { key: "perumahan_cluster", label: "Cluster", pattern: /\bcluster\b|\bklaster\b/i },
+  { key: "kolam_renang", label: "Kolam Renang", pattern: /\bkolam\s+renang\b|\bswimming\s*pool\b|\bprivate\s+pool\b/i },
+  { key: "strategis", label: "Lokasi Strategis", pattern: /\bstrategis\b|\bstrategic\b/i },
+  { key: "minimalis", label: "Minimalis", pattern: /\bminimalis\b|\bminimalist\b/i },
+]
+
+export const AMENITY_TAGS: { key: AmenityTag; label: string }[] = AMENITY_RULES.map(({ key, label }) => ({ key, label }))
+
+export function getAmenityLabel(tag: AmenityTag) {
+  return AMENITY_RULES.find((rule) => rule.key === tag)?.label ?? tag
+}
+
+// Rule-based: a tag applies when its keyword appears in the listing name and is not negated
+export function extractAmenities(name: string): AmenityTag[] {
+  return AMENITY_RULES.filter((rule) => rule.pattern.test(name) && !rule.exclude?.test(name)).map((rule) => rule.key)
+}
@@ -0,0 +1,23 @@
+// First entries keep the colors the app has always used for clusters 0/1/2
+const BASE_PALETTE = [
+  "#ef4444", // red
+  "#3b82f6", // blue
+  "#10b981", // green
+  "#f59e0b", // amber
+  "#8b5cf6", // violet
+  "#ec4899", // pink
+  "#14b8a6", // teal
+  "#f97316", // orange
+  "#6366f1", // indigo
+  "#84cc16", // lime
+]
+
+export const FALLBACK_CLUSTER_COLOR = "#6b7280"
+
+// Beyond the base palette, walk the hue wheel by the golden angle so neighbours stay distinct
+export function getClusterColor(cluster: number) {
+  if (!Number.isInteger(cluster) || cluster < 0) return FALLBACK_CLUSTER_COLOR
+  if (cluster < BASE_PALETTE.length) return BASE_PALETTE[cluster]
+  const hue = (cluster * 137.508) % 360
+  return `hsl(${hue.toFixed(1)}, 65%, 50%)`
+}
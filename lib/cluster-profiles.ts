@@ -0,0 +1,67 @@
+import type { PropertyData } from "./property-schema"
+import { NOISE_CLUSTER, getClusterIds } from "./clustering"
+import { median } from "./stats"
+
+export type ProfileField = "price" | "land_area" | "building_area" | "bedrooms" | "bathrooms" | "floors" | "latitude" | "longitude"
+
+const PROFILE_FIELDS: ProfileField[] = ["price", "land_area", "building_area", "bedrooms", "bathrooms", "floors", "latitude", "longitude"]
+
+export interface ClusterProfile {
+  cluster: number
+  size: number
+  medians: Record<ProfileField, number>
+  description: string
+}
+
+// A cluster median this far above/below the global median is called out in the description
+const HIGH_RATIO = 1.25
+const LOW_RATIO = 0.8
+// ~2 km; smaller centroid offsets from the dataset centre read as "central"
+const LOCATION_THRESHOLD_DEG = 0.02
+
+function mediansOf(properties: PropertyData[]) {
+  return Object.fromEntries(PROFILE_FIELDS.map((f) => [f, median(properties.map((p) => Number(p[f])))])) as Record<
+    ProfileField,
+    number
+  >
+}
+
+function compare(value: number, reference: number) {
+  if (!Number.isFinite(value) || !Number.isFinite(reference) || reference === 0) return "mid"
+  const ratio = value / reference
+  return ratio >= HIGH_RATIO ? "high" : ratio <= LOW_RATIO ? "low" : "mid"
+}
+
+function describeLocation(medians: Record<ProfileField, number>, global: Record<ProfileField, number>) {
+  const dLat = medians.latitude - global.latitude
+  const dLng = medians.longitude - global.longitude
+  const ns = dLat > LOCATION_THRESHOLD_DEG ? "north" : dLat < -LOCATION_THRESHOLD_DEG ? "south" : ""
+  const ew = dLng > LOCATION_THRESHOLD_DEG ? "east" : dLng < -LOCATION_THRESHOLD_DEG ? "west" : ""
+  if (!ns && !ew) return "central area"
+  return `${[ns, ew].filter(Boolean).join("-")} area`
+}
+
+export function describeCluster(medians: Record<ProfileField, number>, global: Record<ProfileField, number>) {
+  const size = { high: "large ", low: "compact ", mid: "" }[compare(medians.building_area, global.building_area)]
+  const bedrooms = Number.isFinite(medians.bedrooms) ? `${Math.round(medians.bedrooms)}BR ` : ""
+  const parts = [`${size}${bedrooms}houses`]
+  parts.push(`${compare(medians.price, global.price)} price`)
+  const land = compare(medians.land_area, global.land_area)
+  if (land !== "mid") parts.push(land === "high" ? "big plots" : "small plots")
+  parts.push(describeLocation(medians, global))
+  return parts.join(", ")
+}
+
+export function buildClusterProfiles(properties: PropertyData[]): ClusterProfile[] {
+  const global = mediansOf(properties)
+  return getClusterIds(properties).map((cluster) => {
+    const members = properties.filter((p) => p.cluster === cluster)
+    const medians = mediansOf(members)
+    return {
+      cluster,
+      size: members.length,
+      medians,
+      description: cluster === NOISE_CLUSTER ? "isolated listings outside any dense area" : describeCluster(medians, global),
+    }
+  })
+}
@@ -0,0 +1,20 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { METERS_PER_DEGREE, dbscan, haversineDistance } from "./clustering"
+
+test("dbscan finds neighbours just under epsilon apart wherever they fall in the grid", () => {
+  const gap = 99.89 / METERS_PER_DEGREE
+  // Slide the pair across a whole cell in tiny steps so the pair straddles every possible cell boundary
+  for (let i = 0; i < 100000; i++) {
+    const a = { latitude: -6.9 + i * 1e-8, longitude: 107.6 }
+    const b = { latitude: a.latitude + gap, longitude: 107.6 }
+    assert.ok(haversineDistance(a, b) <= 100)
+    assert.deepEqual(dbscan([a, b], { epsilonMeters: 100, minPoints: 2 }).labels, [0, 0])
+  }
+})
+
+test("dbscan keeps points farther than epsilon apart as noise", () => {
+  const a = { latitude: -6.9, longitude: 107.6 }
+  const b = { latitude: -6.9 + 100.5 / METERS_PER_DEGREE, longitude: 107.6 }
+  assert.deepEqual(dbscan([a, b], { epsilonMeters: 100, minPoints: 2 }).labels, [-1, -1])
+})
@@ -0,0 +1,451 @@
+import type { PropertyData } from "./property-schema"
+import { AMENITY_TAGS, type AmenityTag } from "./amenities"
+import { DERIVED_METRICS, type DerivedMetric } from "./derived-metrics"
+import { median } from "./stats"
+
+export type NumericClusterFeature =
+  | "price"
+  | "land_area"
+  | "building_area"
+  | "bedrooms"
+  | "bathrooms"
+  | "floors"
+  | "latitude"
+  | "longitude"
+  | DerivedMetric
+
+// Amenity tags enter clustering as 0/1 columns
+export type AmenityClusterFeature = `amenity:${AmenityTag}`
+
+export type ClusterFeature = NumericClusterFeature | AmenityClusterFeature
+
+export const CLUSTER_FEATURES: { key: NumericClusterFeature; label: string }[] = [
+  { key: "price", label: "Harga" },
+  { key: "land_area", label: "Luas Tanah" },
+  { key: "building_area", label: "Luas Bangunan" },
+  { key: "bedrooms", label: "Kamar Tidur" },
+  { key: "bathrooms", label: "Kamar Mandi" },
+  { key: "floors", label: "Lantai" },
+  { key: "latitude", label: "Latitude" },
+  { key: "longitude", label: "Longitude" },
+  ...DERIVED_METRICS.map(({ key, label }) => ({ key, label })),
+]
+
+export const AMENITY_CLUSTER_FEATURES: { key: AmenityClusterFeature; label: string }[] = AMENITY_TAGS.map(
+  ({ key, label }) => ({ key: `amenity:${key}`, label }),
+)
+
+export const DEFAULT_CLUSTER_FEATURES: ClusterFeature[] = ["price", "land_area", "building_area", "bedrooms", "bathrooms"]
+
+// Label DBSCAN gives to points that belong to no dense region
+export const NOISE_CLUSTER = -1
+
+export interface KMeansOptions {
+  k: number
+  maxIterations?: number
+  seed?: number
+}
+
+export interface KMeansResult {
+  labels: number[]
+  centroids: number[][]
+  inertia: number
+  iterations: number
+}
+
+// How the current cluster ids were produced, recorded with the dataset and in exports
+export type ClusteringSettings =
+  | { method: "kmeans"; k: number; features: ClusterFeature[] }
+  | { method: "dbscan"; epsilonMeters: number; minPoints: number }
+
+export interface ReclusterOptions {
+  features: ClusterFeature[]
+  k: number
+  seed?: number
+}
+
+// Small seeded PRNG so the same data and settings always give the same clusters
+function mulberry32(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function squaredDistance(a: number[], b: number[]) {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i]
+    sum += diff * diff
+  }
+  return sum
+}
+
+export function buildFeatureMatrix(properties: PropertyData[], features: ClusterFeature[]) {
+  const columns = features.map((f) =>
+    properties.map((p) => {
+      if (f.startsWith("amenity:")) return Number(p.amenities.includes(f.slice("amenity:".length) as AmenityTag))
+      const value = p[f as NumericClusterFeature]
+      return value === null ? NaN : Number(value)
+    }),
+  )
+  // Derived metrics are missing when an area is 0; fill with the column median so they do not become outliers
+  columns.forEach((column) => {
+    if (!column.some(Number.isNaN)) return
+    const fill = median(column)
+    column.forEach((v, i) => {
+      if (Number.isNaN(v)) column[i] = Number.isNaN(fill) ? 0 : fill
+    })
+  })
+  return properties.map((_, i) => columns.map((column) => column[i]))
+}
+
+// Z-score each column; constant columns collapse to 0 instead of dividing by zero
+export function standardize(matrix: number[][]) {
+  if (!matrix.length) return []
+  const columns = matrix[0].length
+  const means = new Array(columns).fill(0)
+  const stds = new Array(columns).fill(0)
+
+  matrix.forEach((row) => row.forEach((v, j) => (means[j] += v)))
+  for (let j = 0; j < columns; j++) means[j] /= matrix.length
+
+  matrix.forEach((row) => row.forEach((v, j) => (stds[j] += (v - means[j]) ** 2)))
+  for (let j = 0; j < columns; j++) stds[j] = Math.sqrt(stds[j] / matrix.length)
+
+  return matrix.map((row) => row.map((v, j) => (stds[j] ? (v - means[j]) / stds[j] : 0)))
+}
+
+// k-means++ seeding: each new centroid is drawn with probability proportional to D(x)^2
+function seedCentroids(points: number[][], k: number, random: () => number) {
+  const centroids = [points[Math.floor(random() * points.length)]]
+  const distances = points.map((p) => squaredDistance(p, centroids[0]))
+
+  while (centroids.length < k) {
+    const total = distances.reduce((a, b) => a + b, 0)
+    let index = 0
+    if (total > 0) {
+      let target = random() * total
+      while (index < points.length - 1 && target >= distances[index]) {
+        target -= distances[index]
+        index++
+      }
+    } else {
+      index = Math.floor(random() * points.length)
+    }
+    const next = points[index]
+    centroids.push(next)
+    points.forEach((p, i) => {
+      distances[i] = Math.min(distances[i], squaredDistance(p, next))
+    })
+  }
+
+  return centroids.map((c) => [...c])
+}
+
+export function kMeans(points: number[][], { k, maxIterations = 100, seed = 42 }: KMeansOptions): KMeansResult {
+  if (!Number.isInteger(k) || k < 1) throw new Error("k harus bilangan bulat minimal 1")
+  if (points.length < k) throw new Error(`Jumlah data (${points.length}) lebih sedikit dari k (${k})`)
+
+  const random = mulberry32(seed)
+  const centroids = seedCentroids(points, k, random)
+  const labels = new Array(points.length).fill(-1)
+  let iterations = 0
+
+  for (; iterations < maxIterations; iterations++) {
+    // Assignment step
+    let changed = false
+    points.forEach((p, i) => {
+      let best = 0
+      let bestDistance = Infinity
+      centroids.forEach((c, j) => {
+        const d = squaredDistance(p, c)
+        if (d < bestDistance) {
+          bestDistance = d
+          best = j
+        }
+      })
+      if (labels[i] !== best) {
+        labels[i] = best
+        changed = true
+      }
+    })
+    if (!changed) break
+
+    // Update step
+    const sums = centroids.map((c) => new Array(c.length).fill(0))
+    const counts = new Array(k).fill(0)
+    points.forEach((p, i) => {
+      counts[labels[i]]++
+      p.forEach((v, j) => (sums[labels[i]][j] += v))
+    })
+    for (let j = 0; j < k; j++) {
+      if (counts[j]) {
+        centroids[j] = sums[j].map((s) => s / counts[j])
+      } else {
+        // Empty cluster: move it to the point that is furthest from its centroid
+        let furthest = 0
+        let furthestDistance = -1
+        points.forEach((p, i) => {
+          const d = squaredDistance(p, centroids[labels[i]])
+          if (d > furthestDistance) {
+            furthestDistance = d
+            furthest = i
+          }
+        })
+        centroids[j] = [...points[furthest]]
+      }
+    }
+  }
+
+  const inertia = points.reduce((sum, p, i) => sum + squaredDistance(p, centroids[labels[i]]), 0)
+  return { labels, centroids, inertia, iterations }
+}
+
+// Renumber labels so cluster 0 is the largest, keeping ids stable across re-runs
+function relabelBySize(labels: number[], k: number) {
+  const counts = new Array(k).fill(0)
+  labels.forEach((l) => counts[l]++)
+  const order = counts.map((count, label) => ({ count, label })).sort((a, b) => b.count - a.count || a.label - b.label)
+  const mapping = new Array(k)
+  order.forEach(({ label }, index) => (mapping[label] = index))
+  return labels.map((l) => mapping[l])
+}
+
+export function reclusterProperties(properties: PropertyData[], { features, k, seed }: ReclusterOptions) {
+  if (!features.length) throw new Error("Pilih minimal satu fitur untuk clustering")
+  const points = standardize(buildFeatureMatrix(properties, features))
+  const { labels } = kMeans(points, { k, seed })
+  const clusters = relabelBySize(labels, k)
+  return properties.map((p, i) => ({ ...p, cluster: clusters[i] }))
+}
+
+export interface KDiagnostic {
+  k: number
+  inertia: number
+  silhouette: number
+}
+
+export interface SweepOptions {
+  features: ClusterFeature[]
+  minK: number
+  maxK: number
+  seed?: number
+}
+
+// Mean silhouette over (at most maxSamples) points; O(n^2) so large sets are sampled evenly
+export function silhouetteScore(points: number[][], labels: number[], maxSamples = 1500) {
+  const step = Math.max(1, Math.ceil(points.length / maxSamples))
+  const indices = points.map((_, i) => i).filter((i) => i % step === 0)
+  const clusterIds = Array.from(new Set(indices.map((i) => labels[i])))
+  if (clusterIds.length < 2) return 0
+
+  let total = 0
+  indices.forEach((i) => {
+    const sums = new Map<number, { sum: number; count: number }>()
+    indices.forEach((j) => {
+      if (i === j) return
+      const entry = sums.get(labels[j]) || { sum: 0, count: 0 }
+      entry.sum += Math.sqrt(squaredDistance(points[i], points[j]))
+      entry.count++
+      sums.set(labels[j], entry)
+    })
+    const own = sums.get(labels[i])
+    // Singleton clusters score 0 by convention
+    if (!own || !own.count) return
+    const a = own.sum / own.count
+    let b = Infinity
+    sums.forEach(({ sum, count }, label) => {
+      if (label !== labels[i] && count) b = Math.min(b, sum / count)
+    })
+    if (b === Infinity) return
+    total += (b - a) / Math.max(a, b)
+  })
+
+  return total / indices.length
+}
+
+// Upper bound on the points each k-means run of a sweep sees; larger datasets are sampled evenly
+export const MAX_SWEEP_POINTS = 2000
+
+export interface SweepPlan {
+  points: number[][]
+  ks: number[]
+}
+
+// Validates the range and prepares the (sampled, standardized) points once for every k
+export function planSweep(
+  properties: PropertyData[],
+  { features, minK, maxK }: SweepOptions,
+  maxPoints = MAX_SWEEP_POINTS,
+): SweepPlan {
+  if (!features.length) throw new Error("Pilih minimal satu fitur untuk clustering")
+  if (minK < 2 || maxK < minK) throw new Error("Rentang k tidak valid (minimal 2)")
+  const step = Math.max(1, Math.ceil(properties.length / maxPoints))
+  const sample = properties.filter((_, i) => i % step === 0)
+  const points = standardize(buildFeatureMatrix(sample, features))
+  const ks: number[] = []
+  for (let k = minK; k <= Math.min(maxK, points.length - 1); k++) ks.push(k)
+  return { points, ks }
+}
+
+// One step of the sweep, so callers can yield to the browser between values of k
+export function diagnoseK(points: number[][], k: number, seed?: number): KDiagnostic {
+  const { labels, inertia } = kMeans(points, { k, seed })
+  return { k, inertia, silhouette: silhouetteScore(points, labels) }
+}
+
+// Elbow = point on the WCSS curve furthest from the line joining its first and last points
+export function findElbowK(results: KDiagnostic[]) {
+  if (results.length < 3) return results[0]?.k ?? null
+  const first = results[0]
+  const last = results[results.length - 1]
+  const kRange = last.k - first.k || 1
+  const inertiaRange = first.inertia - last.inertia || 1
+  let best = first
+  let bestDistance = -1
+  results.forEach((r) => {
+    // Both axes scaled to [0, 1]; the chord then runs from (0, 1) to (1, 0)
+    const x = (r.k - first.k) / kRange
+    const y = (r.inertia - last.inertia) / inertiaRange
+    const distance = Math.abs(x + y - 1) / Math.SQRT2
+    if (distance > bestDistance) {
+      bestDistance = distance
+      best = r
+    }
+  })
+  return best.k
+}
+
+// The recommendation follows the best silhouette; the elbow is reported alongside as a cross-check
+export function recommendK(results: KDiagnostic[]) {
+  if (!results.length) return null
+  return results.reduce((best, r) => (r.silhouette > best.silhouette ? r : best)).k
+}
+
+// Sorted unique cluster ids present in the data; the single source for filters, legends and charts.
+// Noise (if any) is listed last.
+export function getClusterIds(properties: Pick<PropertyData, "cluster">[]) {
+  return Array.from(new Set(properties.map((p) => Number(p.cluster))))
+    .filter((c) => Number.isFinite(c))
+    .sort((a, b) => (a === NOISE_CLUSTER ? 1 : b === NOISE_CLUSTER ? -1 : a - b))
+}
+
+// User-given cluster names, keyed by cluster id
+export type ClusterNames = Record<number, string>
+
+export function formatClusterLabel(cluster: number, names?: ClusterNames) {
+  const name = names?.[cluster]?.trim()
+  if (name) return name
+  return cluster === NOISE_CLUSTER ? "Noise" : `Cluster ${cluster}`
+}
+
+export interface DbscanOptions {
+  epsilonMeters: number
+  minPoints: number
+}
+
+type LatLng = Pick<PropertyData, "latitude" | "longitude">
+
+export const EARTH_RADIUS_METERS = 6371008.8
+// Length of one degree of latitude (or longitude at the equator) on the sphere haversineDistance uses
+export const METERS_PER_DEGREE = (EARTH_RADIUS_METERS * Math.PI) / 180
+
+export function haversineDistance(a: LatLng, b: LatLng) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(b.latitude - a.latitude)
+  const dLng = toRad(b.longitude - a.longitude)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+// Bucket points into epsilon-sized lat/lng cells so neighbour queries only scan the 3x3 block around a point
+function buildGridIndex(points: LatLng[], epsilonMeters: number) {
+  const maxAbsLat = points.reduce((m, p) => Math.max(m, Math.abs(p.latitude)), 0)
+  // Cells must be at least epsilon wide on the haversine sphere, or true neighbours two cells away are missed
+  const latStep = epsilonMeters / METERS_PER_DEGREE
+  const lngStep = epsilonMeters / (METERS_PER_DEGREE * Math.max(Math.cos((Math.min(maxAbsLat, 89) * Math.PI) / 180), 0.01))
+  const cellOf = (p: LatLng) => [Math.floor(p.latitude / latStep), Math.floor(p.longitude / lngStep)]
+  const cells = new Map<string, number[]>()
+  points.forEach((p, i) => {
+    const key = cellOf(p).join(":")
+    const bucket = cells.get(key)
+    if (bucket) bucket.push(i)
+    else cells.set(key, [i])
+  })
+
+  return (index: number) => {
+    const [row, col] = cellOf(points[index])
+    const neighbours: number[] = []
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        cells.get(`${row + dr}:${col + dc}`)?.forEach((j) => {
+          if (haversineDistance(points[index], points[j]) <= epsilonMeters) neighbours.push(j)
+        })
+      }
+    }
+    return neighbours
+  }
+}
+
+// Classic DBSCAN; a point's neighbourhood includes itself, so minPoints counts the point too
+export function dbscan(points: LatLng[], { epsilonMeters, minPoints }: DbscanOptions) {
+  if (!(epsilonMeters > 0)) throw new Error("Epsilon harus lebih dari 0 meter")
+  if (!Number.isInteger(minPoints) || minPoints < 1) throw new Error("minPts harus bilangan bulat minimal 1")
+
+  const regionQuery = buildGridIndex(points, epsilonMeters)
+  const labels = new Array(points.length).fill(undefined) as (number | undefined)[]
+  let cluster = 0
+
+  for (let i = 0; i < points.length; i++) {
+    if (labels[i] !== undefined) continue
+    const neighbours = regionQuery(i)
+    if (neighbours.length < minPoints) {
+      labels[i] = NOISE_CLUSTER
+      continue
+    }
+
+    labels[i] = cluster
+    const queue = neighbours.filter((j) => j !== i)
+    while (queue.length) {
+      const j = queue.pop() as number
+      // Border points previously marked as noise join the cluster but do not expand it
+      if (labels[j] === NOISE_CLUSTER) labels[j] = cluster
+      if (labels[j] !== undefined) continue
+      labels[j] = cluster
+      const expansion = regionQuery(j)
+      if (expansion.length >= minPoints) queue.push(...expansion)
+    }
+    cluster++
+  }
+
+  return { labels: labels as number[], clusterCount: cluster }
+}
+
+export function dbscanProperties(properties: PropertyData[], options: DbscanOptions) {
+  const { labels, clusterCount } = dbscan(properties, options)
+  const clustered = labels.filter((l) => l !== NOISE_CLUSTER)
+  const relabeled = relabelBySize(clustered, clusterCount)
+  let next = 0
+  return properties.map((p, i) => ({
+    ...p,
+    cluster: labels[i] === NOISE_CLUSTER ? NOISE_CLUSTER : relabeled[next++],
+  }))
+}
+
+export function clusterWithSettings(properties: PropertyData[], settings: ClusteringSettings) {
+  return settings.method === "kmeans"
+    ? reclusterProperties(properties, { features: settings.features, k: settings.k })
+    : dbscanProperties(properties, { epsilonMeters: settings.epsilonMeters, minPoints: settings.minPoints })
+}
+
+export function describeClusteringSettings(settings: ClusteringSettings | null) {
+  if (!settings) return "Cluster dari file sumber"
+  return settings.method === "kmeans"
+    ? `K-Means, k=${settings.k}, fitur: ${settings.features.join(", ")}`
+    : `DBSCAN, epsilon=${settings.epsilonMeters} m, minPts=${settings.minPoints}`
+}
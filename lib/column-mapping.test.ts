@@ -0,0 +1,15 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { suggestMapping } from "./column-mapping"
+
+test("suggestMapping maps the KT/KM abbreviations to bedrooms and bathrooms", () => {
+  const mapping = suggestMapping(["Judul", "Harga", "KT", "KM", "LT", "LB", "Lat", "Lng"])
+  assert.equal(mapping.bedrooms, "KT")
+  assert.equal(mapping.bathrooms, "KM")
+})
+
+test("suggestMapping does not match short synonyms inside longer words", () => {
+  const mapping = suggestMapping(["nama", "platform", "along_the_road", "harga"])
+  assert.equal(mapping.latitude, undefined)
+  assert.equal(mapping.longitude, undefined)
+})
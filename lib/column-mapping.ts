@@ -0,0 +1,130 @@
+import type { PropertyData } from "./property-schema"
+import type { DerivedMetric } from "./derived-metrics"
+
+// Columns read from a file; amenity tags and per-m² metrics are derived, never mapped
+export type PropertyField = Exclude<keyof PropertyData, "amenities" | DerivedMetric>
+
+// Target field -> source column header
+export type ColumnMapping = Partial<Record<PropertyField, string>>
+
+export const PROPERTY_FIELDS: { key: PropertyField; label: string; required: boolean }[] = [
+  { key: "name", label: "Nama", required: true },
+  { key: "url", label: "URL", required: false },
+  { key: "bedrooms", label: "Kamar Tidur", required: true },
+  { key: "bathrooms", label: "Kamar Mandi", required: true },
+  { key: "floors", label: "Lantai", required: true },
+  { key: "land_area", label: "Luas Tanah", required: true },
+  { key: "building_area", label: "Luas Bangunan", required: true },
+  { key: "longitude", label: "Longitude", required: true },
+  { key: "latitude", label: "Latitude", required: true },
+  { key: "price", label: "Harga", required: true },
+  { key: "cluster", label: "Cluster", required: false },
+]
+
+// Header spellings seen in portal exports, including Indonesian ones; compared after normalizeHeader
+const FIELD_SYNONYMS: Record<PropertyField, string[]> = {
+  name: ["nama", "title", "judul", "listing", "property_name", "nama_properti"],
+  url: ["link", "tautan", "href", "listing_url"],
+  bedrooms: ["kamar_tidur", "kt", "bed", "beds", "bedroom", "jumlah_kamar_tidur", "jml_kt"],
+  bathrooms: ["kamar_mandi", "km", "bath", "baths", "bathroom", "jumlah_kamar_mandi", "jml_km"],
+  floors: ["lantai", "jumlah_lantai", "floor", "storeys", "stories"],
+  land_area: ["luas_tanah", "lt", "land", "land_size", "lot_area", "luas_lahan"],
+  building_area: ["luas_bangunan", "lb", "building", "building_size", "floor_area"],
+  longitude: ["lon", "lng", "long", "bujur", "x"],
+  latitude: ["lat", "lintang", "y"],
+  price: ["harga", "harga_sewa", "price_idr", "rent", "biaya", "sewa"],
+  cluster: ["klaster", "kluster", "group", "segment"],
+}
+
+// Shorter synonyms ("lat", "kt", "bath") only match whole words of a header, never inside one (e.g. "platform")
+const MIN_SUBSTRING_SYNONYM_LENGTH = 5
+
+const SAVED_MAPPINGS_STORAGE_KEY = "column-mappings"
+
+// Optional column written by our own exports; carried through mapping so cluster names round-trip
+export const CLUSTER_NAME_COLUMN = "cluster_name"
+
+export function normalizeHeader(header: string) {
+  return header
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+}
+
+// Order-insensitive key identifying files with the same set of columns
+export function headerSignature(headers: string[]) {
+  return headers.map(normalizeHeader).sort().join("|")
+}
+
+export function isIdentityMapping(headers: string[]) {
+  return PROPERTY_FIELDS.filter((f) => f.required).every((f) => headers.includes(f.key))
+}
+
+export function identityMapping(headers: string[]): ColumnMapping {
+  return Object.fromEntries(PROPERTY_FIELDS.filter((f) => headers.includes(f.key)).map((f) => [f.key, f.key]))
+}
+
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<string>()
+  const normalized = headers.map((h) => ({ header: h, key: normalizeHeader(h) }))
+
+  const assign = (match: (key: string, field: PropertyField) => boolean) => {
+    PROPERTY_FIELDS.forEach(({ key: field }) => {
+      if (mapping[field]) return
+      const candidate = normalized.find(({ header, key }) => !used.has(header) && match(key, field))
+      if (candidate) {
+        mapping[field] = candidate.header
+        used.add(candidate.header)
+      }
+    })
+  }
+
+  // Most specific first: exact field name, a known synonym, a synonym as one word of the header
+  // (e.g. "LT (m2)"), then a header containing a long enough one
+  assign((key, field) => key === field)
+  assign((key, field) => FIELD_SYNONYMS[field].includes(key))
+  assign((key, field) => key.split("_").some((token) => FIELD_SYNONYMS[field].includes(token)))
+  assign((key, field) =>
+    [field, ...FIELD_SYNONYMS[field]].some(
+      (s) => s.length >= MIN_SUBSTRING_SYNONYM_LENGTH && key.split("_").join("").includes(s.replace(/_/g, "")),
+    ),
+  )
+
+  return mapping
+}
+
+export function missingRequiredFields(mapping: ColumnMapping) {
+  return PROPERTY_FIELDS.filter((f) => f.required && !mapping[f.key])
+}
+
+export function applyColumnMapping(rows: Record<string, unknown>[], mapping: ColumnMapping) {
+  const entries = Object.entries(mapping).filter(([, source]) => source) as [string, string][]
+  return rows.map((row) => {
+    const record = Object.fromEntries(entries.map(([field, source]) => [field, row[source]]))
+    if (row[CLUSTER_NAME_COLUMN] !== undefined) record[CLUSTER_NAME_COLUMN] = row[CLUSTER_NAME_COLUMN]
+    return record
+  })
+}
+
+function readSavedMappings(): Record<string, ColumnMapping> {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_MAPPINGS_STORAGE_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
+
+export function loadSavedMapping(headers: string[]): ColumnMapping | null {
+  const saved = readSavedMappings()[headerSignature(headers)]
+  // Ignore stale entries that point at columns this file does not have
+  if (!saved || Object.values(saved).some((source) => source && !headers.includes(source))) return null
+  return saved
+}
+
+export function saveMapping(headers: string[], mapping: ColumnMapping) {
+  const saved = readSavedMappings()
+  saved[headerSignature(headers)] = mapping
+  localStorage.setItem(SAVED_MAPPINGS_STORAGE_KEY, JSON.stringify(saved))
+}
@@ -0,0 +1,128 @@
+import type { PropertyData } from "./property-schema"
+import type { ClusterNames, ClusteringSettings } from "./clustering"
+import { DEFAULT_FILTERS, type PropertyFilters } from "./filters"
+import type { AdminBoundaries } from "./admin-boundaries"
+
+const DB_NAME = "real-estate-cluster"
+const DB_VERSION = 2
+const DATASET_STORE = "datasets"
+// Filters and cluster names change per keystroke, so they live in a small record of their own per dataset
+const STATE_STORE = "datasetState"
+const META_STORE = "meta"
+const ACTIVE_DATASET_KEY = "activeDatasetId"
+// Boundaries are independent of the dataset, so one file is kept for whichever dataset is open
+const BOUNDARIES_KEY = "adminBoundaries"
+// Older uploads beyond this are pruned so the browser store does not grow without bound
+const MAX_STORED_DATASETS = 5
+
+export interface StoredDataset {
+  id: string
+  sourceName: string
+  properties: PropertyData[]
+  clusterNames: ClusterNames
+  // null when the cluster ids come straight from the imported file
+  clustering: ClusteringSettings | null
+  filters: PropertyFilters
+  updatedAt: number
+}
+
+type DatasetRows = Omit<StoredDataset, "filters" | "clusterNames">
+
+interface DatasetState {
+  id: string
+  filters: PropertyFilters
+  clusterNames: ClusterNames
+  // Last time the dataset was used; decides which datasets are pruned
+  updatedAt: number
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(DATASET_STORE)) db.createObjectStore(DATASET_STORE, { keyPath: "id" })
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE)
+      if (!db.objectStoreNames.contains(STATE_STORE)) db.createObjectStore(STATE_STORE, { keyPath: "id" })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function loadDataset(id: string): Promise<StoredDataset | null> {
+  const rows = await withStore<DatasetRows | undefined>(DATASET_STORE, "readonly", (store) => store.get(id))
+  if (!rows) return null
+  const state = await withStore<DatasetState | undefined>(STATE_STORE, "readonly", (store) => store.get(id))
+  return {
+    id: rows.id,
+    sourceName: rows.sourceName,
+    properties: rows.properties,
+    clustering: rows.clustering,
+    filters: state?.filters ?? DEFAULT_FILTERS,
+    clusterNames: state?.clusterNames ?? {},
+    updatedAt: Math.max(rows.updatedAt, state?.updatedAt ?? 0),
+  }
+}
+
+export async function loadActiveDataset(): Promise<StoredDataset | null> {
+  const id = await withStore<string | undefined>(META_STORE, "readonly", (store) => store.get(ACTIVE_DATASET_KEY))
+  return id ? loadDataset(id) : null
+}
+
+// Rows only change on upload and re-clustering; adding a new dataset is what prunes older ones
+export async function saveDatasetRows({ id, sourceName, properties, clustering, updatedAt }: StoredDataset) {
+  const isNew = (await withStore(DATASET_STORE, "readonly", (store) => store.getKey(id))) === undefined
+  const rows: DatasetRows = { id, sourceName, properties, clustering, updatedAt }
+  await withStore(DATASET_STORE, "readwrite", (store) => store.put(rows))
+  if (isNew) await pruneDatasets(id)
+}
+
+// Also marks the dataset as the active one
+export async function saveDatasetState({ id, filters, clusterNames, updatedAt }: StoredDataset) {
+  const state: DatasetState = { id, filters, clusterNames, updatedAt }
+  await withStore(STATE_STORE, "readwrite", (store) => store.put(state))
+  await withStore(META_STORE, "readwrite", (store) => store.put(id, ACTIVE_DATASET_KEY))
+}
+
+// Reads only the small state records to rank datasets by last use
+async function pruneDatasets(keepId: string) {
+  const ids = await withStore(DATASET_STORE, "readonly", (store) => store.getAllKeys())
+  const states = await withStore<DatasetState[]>(STATE_STORE, "readonly", (store) => store.getAll())
+  const lastUsed = new Map(states.map((state) => [state.id, state.updatedAt]))
+  const stale = ids
+    .map(String)
+    .filter((id) => id !== keepId)
+    .sort((a, b) => (lastUsed.get(b) ?? 0) - (lastUsed.get(a) ?? 0))
+    .slice(MAX_STORED_DATASETS - 1)
+  for (const id of stale) {
+    await withStore(DATASET_STORE, "readwrite", (store) => store.delete(id))
+    await withStore(STATE_STORE, "readwrite", (store) => store.delete(id))
+  }
+}
+
+export async function loadBoundaries(): Promise<AdminBoundaries | null> {
+  return (await withStore<AdminBoundaries | undefined>(META_STORE, "readonly", (store) => store.get(BOUNDARIES_KEY))) ?? null
+}
+
+export async function saveBoundaries(boundaries: AdminBoundaries | null) {
+  if (boundaries) await withStore(META_STORE, "readwrite", (store) => store.put(boundaries, BOUNDARIES_KEY))
+  else await withStore(META_STORE, "readwrite", (store) => store.delete(BOUNDARIES_KEY))
+}
@@ -0,0 +1,28 @@
+// Metrics computed from the imported columns; null where the area they divide by is 0
+export interface DerivedMetrics {
+  price_per_building_m2: number | null
+  price_per_land_m2: number | null
+  building_land_ratio: number | null
+}
+
+export type DerivedMetric = keyof DerivedMetrics
+
+export const DERIVED_METRICS: { key: DerivedMetric; label: string; unit?: string }[] = [
+  { key: "price_per_building_m2", label: "Harga/m² Bangunan", unit: "IDR/m²" },
+  { key: "price_per_land_m2", label: "Harga/m² Tanah", unit: "IDR/m²" },
+  { key: "building_land_ratio", label: "Rasio Bangunan/Tanah" },
+]
+
+const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : null)
+
+export function computeDerivedMetrics(p: {
+  price: number
+  land_area: number
+  building_area: number
+}): DerivedMetrics {
+  return {
+    price_per_building_m2: ratio(p.price, p.building_area),
+    price_per_land_m2: ratio(p.price, p.land_area),
+    building_land_ratio: ratio(p.building_area, p.land_area),
+  }
+}
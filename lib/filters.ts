@@ -0,0 +1,179 @@
+import { z } from "zod"
+import type { PropertyData } from "./property-schema"
+import { matchesQuery, parseQuery } from "./search"
+import { AMENITY_TAGS, type AmenityTag } from "./amenities"
+import type { DerivedMetric } from "./derived-metrics"
+import { pointInBounds, pointInShape, type MapBounds, type SpatialShape } from "./spatial"
+
+export type RangeField =
+  | "price"
+  | "land_area"
+  | "building_area"
+  | "bedrooms"
+  | "bathrooms"
+  | "floors"
+  | DerivedMetric
+
+export const RANGE_FIELDS: { key: RangeField; label: string; unit?: string; integer: boolean }[] = [
+  { key: "price", label: "Harga", unit: "IDR", integer: false },
+  { key: "land_area", label: "Luas Tanah", unit: "m²", integer: false },
+  { key: "building_area", label: "Luas Bangunan", unit: "m²", integer: false },
+  { key: "bedrooms", label: "Kamar Tidur", integer: true },
+  { key: "bathrooms", label: "Kamar Mandi", integer: true },
+  { key: "floors", label: "Lantai", integer: true },
+  { key: "price_per_building_m2", label: "Harga/m² Bangunan", unit: "IDR/m²", integer: false },
+  { key: "price_per_land_m2", label: "Harga/m² Tanah", unit: "IDR/m²", integer: false },
+  { key: "building_land_ratio", label: "Rasio Bangunan/Tanah", integer: false },
+]
+
+export type SortField = "name" | "cluster" | RangeField
+
+export const SORT_FIELDS: { key: SortField; label: string }[] = [
+  { key: "name", label: "Nama" },
+  { key: "cluster", label: "Cluster" },
+  ...RANGE_FIELDS.map(({ key, label }) => ({ key, label })),
+]
+
+export interface PropertySort {
+  field: SortField
+  direction: "asc" | "desc"
+}
+
+export interface PropertyFilters {
+  // Free-text fuzzy search over the listing name and URL slug
+  query: string
+  // Clusters switched off in the filter list or legend; empty shows every cluster
+  hiddenClusters: number[]
+  // Amenity tags a property must all have
+  amenities: AmenityTag[]
+  // Inclusive [min, max] per field; a field without an entry is not filtered
+  ranges: Partial<Record<RangeField, [number, number]>>
+  // Area drawn on the map; null when not filtering spatially
+  shape: SpatialShape | null
+  // Current map bounds while "search this area" is on; null when off
+  viewport: MapBounds | null
+  // Order of the filtered list (search results, table, exports); null keeps file order
+  sort: PropertySort | null
+}
+
+export const DEFAULT_FILTERS: PropertyFilters = {
+  query: "",
+  hiddenClusters: [],
+  amenities: [],
+  ranges: {},
+  shape: null,
+  viewport: null,
+  sort: null,
+}
+
+const enumOf = <T extends string>(items: { key: T }[]) => z.enum(items.map(({ key }) => key) as [T, ...T[]])
+const latLng = z.tuple([z.number(), z.number()])
+
+// Each field falls back to its default on its own, so one unreadable field does not reset every filter
+const filtersSchema = z.object({
+  query: z.string().catch(DEFAULT_FILTERS.query),
+  hiddenClusters: z.array(z.number()).catch(DEFAULT_FILTERS.hiddenClusters),
+  amenities: z.array(enumOf(AMENITY_TAGS)).catch(DEFAULT_FILTERS.amenities),
+  ranges: z.record(enumOf(RANGE_FIELDS), z.tuple([z.number(), z.number()])).catch(DEFAULT_FILTERS.ranges),
+  shape: z
+    .discriminatedUnion("type", [
+      z.object({ type: z.literal("polygon"), points: z.array(latLng) }),
+      z.object({ type: z.literal("rectangle"), southWest: latLng, northEast: latLng }),
+      z.object({ type: z.literal("circle"), center: latLng, radiusKm: z.number() }),
+    ])
+    .nullable()
+    .catch(DEFAULT_FILTERS.shape),
+  viewport: z.object({ southWest: latLng, northEast: latLng }).nullable().catch(DEFAULT_FILTERS.viewport),
+  sort: z
+    .object({ field: enumOf(SORT_FIELDS), direction: z.enum(["asc", "desc"]) })
+    .nullable()
+    .catch(DEFAULT_FILTERS.sort),
+})
+
+// Filters read back from storage are checked against the current shape before use
+export function normalizeFilters(raw: unknown): PropertyFilters {
+  return filtersSchema.parse(raw && typeof raw === "object" ? raw : {})
+}
+
+// Toggle one cluster's visibility, keeping the list sorted so saved filters compare cleanly
+export function toggleHiddenCluster(hiddenClusters: number[], cluster: number) {
+  return hiddenClusters.includes(cluster)
+    ? hiddenClusters.filter((c) => c !== cluster)
+    : [...hiddenClusters, cluster].sort((a, b) => a - b)
+}
+
+export function getFieldBounds(properties: PropertyData[], field: RangeField): [number, number] {
+  let min = Infinity
+  let max = -Infinity
+  properties.forEach((p) => {
+    const v = p[field]
+    if (v === null) return
+    if (v < min) min = v
+    if (v > max) max = v
+  })
+  return min <= max ? [min, max] : [0, 0]
+}
+
+// Viewport step on its own, so the map can render the attribute-filtered set while counts use the visible part
+export function applyViewportFilter(properties: PropertyData[], filters: PropertyFilters) {
+  const viewport = filters.viewport
+  return viewport ? properties.filter((p) => pointInBounds(p, viewport)) : properties
+}
+
+export function applyPropertyFilters(
+  properties: PropertyData[],
+  filters: PropertyFilters,
+  { includeViewport = true }: { includeViewport?: boolean } = {},
+) {
+  let filtered = [...properties]
+
+  // Filter by cluster
+  if (filters.hiddenClusters.length) {
+    const hidden = new Set(filters.hiddenClusters)
+    filtered = filtered.filter((p) => !hidden.has(p.cluster))
+  }
+
+  // Filter by numeric ranges
+  Object.entries(filters.ranges).forEach(([field, range]) => {
+    if (!range) return
+    const [min, max] = range
+    filtered = filtered.filter((p) => {
+      // Derived metrics are null when undefined (zero area); such rows cannot satisfy a range
+      const v = p[field as RangeField]
+      return v !== null && v >= min && v <= max
+    })
+  })
+
+  // Filter by amenity tags
+  if (filters.amenities.length) {
+    filtered = filtered.filter((p) => filters.amenities.every((tag) => p.amenities.includes(tag)))
+  }
+
+  // Filter by drawn area
+  if (filters.shape) {
+    const shape = filters.shape
+    filtered = filtered.filter((p) => pointInShape(p, shape))
+  }
+
+  // Filter by search text
+  const terms = parseQuery(filters.query)
+  if (terms.length) {
+    filtered = filtered.filter((p) => matchesQuery(p, terms))
+  }
+
+  if (filters.sort) filtered = sortProperties(filtered, filters.sort)
+
+  return includeViewport ? applyViewportFilter(filtered, filters) : filtered
+}
+
+// Stable sort; missing derived metrics always go last regardless of direction
+export function sortProperties(properties: PropertyData[], { field, direction }: PropertySort) {
+  const sign = direction === "asc" ? 1 : -1
+  return [...properties].sort((a, b) => {
+    const x = a[field]
+    const y = b[field]
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1
+    if (typeof x === "string" && typeof y === "string") return sign * x.localeCompare(y, "id")
+    return sign * (Number(x) - Number(y))
+  })
+}
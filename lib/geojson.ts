@@ -0,0 +1,45 @@
+import type { Feature, FeatureCollection, Point } from "geojson"
+import { formatClusterLabel, type ClusterNames } from "./clustering"
+import { CLUSTER_NAME_COLUMN } from "./column-mapping"
+import type { RawTable } from "./property-import"
+import type { PropertyData } from "./property-schema"
+
+export type PropertyFeatureCollection = FeatureCollection<Point, PropertyData & { [CLUSTER_NAME_COLUMN]: string }>
+
+export function isGeoJSON(value: unknown): value is FeatureCollection | Feature {
+  const type = (value as { type?: unknown } | null)?.type
+  return type === "FeatureCollection" || type === "Feature"
+}
+
+// Every PropertyData field is kept as a feature property (coordinates included) so the file
+// round-trips through readGeoJSON and stays readable in QGIS attribute tables
+export function toGeoJSON(properties: PropertyData[], clusterNames: ClusterNames): PropertyFeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: properties.map((p) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [p.longitude, p.latitude] },
+      properties: { ...p, [CLUSTER_NAME_COLUMN]: formatClusterLabel(p.cluster, clusterNames) },
+    })),
+  }
+}
+
+export function readGeoJSON(value: FeatureCollection | Feature, sourceName: string): RawTable {
+  const features = value.type === "FeatureCollection" ? value.features : [value]
+  const rowErrors = new Map<number, string[]>()
+  const headers = new Set<string>(["longitude", "latitude"])
+
+  const rows = features.map((feature, index) => {
+    const attributes = { ...(feature.properties || {}) } as Record<string, unknown>
+    Object.keys(attributes).forEach((key) => headers.add(key))
+    if (feature.geometry?.type !== "Point") {
+      rowErrors.set(index, [`Geometri ${feature.geometry?.type ?? "kosong"} bukan Point`])
+      return attributes
+    }
+    // The geometry is authoritative for the location
+    const [longitude, latitude] = feature.geometry.coordinates
+    return { ...attributes, longitude, latitude }
+  })
+
+  return { sourceName, headers: Array.from(headers), rows, rowErrors, firstRowNumber: 1 }
+}
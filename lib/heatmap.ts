@@ -0,0 +1,48 @@
+import type { PropertyData } from "./property-schema"
+import { quantile } from "./stats"
+
+export type HeatmapWeight = "count" | "price" | "price_per_building_m2" | "price_per_land_m2"
+
+export const HEATMAP_WEIGHTS: { key: HeatmapWeight; label: string }[] = [
+  { key: "count", label: "Jumlah listing" },
+  { key: "price", label: "Harga" },
+  { key: "price_per_building_m2", label: "Harga/m² Bangunan" },
+  { key: "price_per_land_m2", label: "Harga/m² Tanah" },
+]
+
+export interface HeatmapSettings {
+  enabled: boolean
+  weight: HeatmapWeight
+  // Pixels, as used by leaflet.heat
+  radius: number
+  blur: number
+  showMarkers: boolean
+}
+
+export const DEFAULT_HEATMAP_SETTINGS: HeatmapSettings = {
+  enabled: false,
+  weight: "count",
+  radius: 25,
+  blur: 15,
+  showMarkers: true,
+}
+
+// Intensity at which a single listing saturates; count mode gives every listing the same share
+const COUNT_INTENSITY = 0.5
+// Price weights are scaled to the 95th percentile so a handful of luxury listings do not wash out the rest
+const PRICE_SCALE_QUANTILE = 0.95
+
+export function buildHeatPoints(properties: PropertyData[], weight: HeatmapWeight): [number, number, number][] {
+  if (weight === "count") return properties.map((p) => [p.latitude, p.longitude, COUNT_INTENSITY])
+
+  const values = properties.map((p) => p[weight])
+  const scale = quantile(
+    values.filter((v): v is number => v !== null),
+    PRICE_SCALE_QUANTILE,
+  )
+  if (!(scale > 0)) return []
+  return properties.flatMap((p, i) => {
+    const value = values[i]
+    return value === null ? [] : [[p.latitude, p.longitude, Math.min(value / scale, 1)] as [number, number, number]]
+  })
+}
@@ -0,0 +1,150 @@
+import type { PropertyData } from "./property-schema"
+import { createLocalProjection, type LatLngTuple } from "./spatial"
+import { getClusterColor } from "./cluster-colors"
+import { median, quantile } from "./stats"
+
+export type HexbinStatistic = "count" | "median_price" | "median_price_per_building_m2" | "dominant_cluster"
+
+export const HEXBIN_STATISTICS: { key: HexbinStatistic; label: string }[] = [
+  { key: "count", label: "Jumlah listing" },
+  { key: "median_price", label: "Median harga" },
+  { key: "median_price_per_building_m2", label: "Median harga/m² Bangunan" },
+  { key: "dominant_cluster", label: "Cluster dominan" },
+]
+
+// Hexagon circumradius choices (center to corner)
+export const HEXBIN_SIZES_KM = [0.5, 1, 2, 5]
+
+export interface HexbinSettings {
+  enabled: boolean
+  sizeKm: number
+  statistic: HexbinStatistic
+  showMarkers: boolean
+}
+
+// Markers are hidden by default so they do not cover the cells being hovered
+export const DEFAULT_HEXBIN_SETTINGS: HexbinSettings = {
+  enabled: false,
+  sizeKm: 1,
+  statistic: "count",
+  showMarkers: false,
+}
+
+export interface HexCell {
+  id: string
+  corners: LatLngTuple[]
+  count: number
+  medianPrice: number
+  medianPricePerBuildingM2: number
+  dominantCluster: number
+  dominantShare: number
+}
+
+const SQRT3 = Math.sqrt(3)
+
+// Pointy-top axial coordinates, rounded through cube coordinates
+function pointToHex(x: number, y: number, size: number): [number, number] {
+  const q = ((SQRT3 / 3) * x - y / 3) / size
+  const r = ((2 / 3) * y) / size
+  const s = -q - r
+  let rq = Math.round(q)
+  let rr = Math.round(r)
+  const rs = Math.round(s)
+  const dq = Math.abs(rq - q)
+  const dr = Math.abs(rr - r)
+  const ds = Math.abs(rs - s)
+  if (dq > dr && dq > ds) rq = -rr - rs
+  else if (dr > ds) rr = -rq - rs
+  return [rq, rr]
+}
+
+function hexCorners(q: number, r: number, size: number): [number, number][] {
+  const cx = size * SQRT3 * (q + r / 2)
+  const cy = size * 1.5 * r
+  return Array.from({ length: 6 }, (_, i) => {
+    const angle = (Math.PI / 180) * (60 * i - 30)
+    return [cx + size * Math.cos(angle), cy + size * Math.sin(angle)] as [number, number]
+  })
+}
+
+export function hexbin(properties: PropertyData[], sizeKm: number): HexCell[] {
+  if (!properties.length || !(sizeKm > 0)) return []
+  const size = sizeKm * 1000
+  const projection = createLocalProjection(properties.reduce((sum, p) => sum + p.latitude, 0) / properties.length)
+
+  const bins = new Map<string, { q: number; r: number; members: PropertyData[] }>()
+  properties.forEach((p) => {
+    const [x, y] = projection.toXY(p.latitude, p.longitude)
+    const [q, r] = pointToHex(x, y, size)
+    const id = `${q}:${r}`
+    const bin = bins.get(id)
+    if (bin) bin.members.push(p)
+    else bins.set(id, { q, r, members: [p] })
+  })
+
+  return Array.from(bins, ([id, { q, r, members }]) => {
+    const clusterCounts = new Map<number, number>()
+    members.forEach((p) => clusterCounts.set(p.cluster, (clusterCounts.get(p.cluster) ?? 0) + 1))
+    const [dominantCluster, dominantCount] = Array.from(clusterCounts).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0]
+    return {
+      id,
+      corners: hexCorners(q, r, size).map(([x, y]) => projection.toLatLng(x, y)),
+      count: members.length,
+      medianPrice: median(members.map((p) => p.price)),
+      medianPricePerBuildingM2: median(
+        members.map((p) => p.price_per_building_m2).filter((v): v is number => v !== null),
+      ),
+      dominantCluster,
+      dominantShare: dominantCount / members.length,
+    }
+  })
+}
+
+function cellValue(cell: HexCell, statistic: Exclude<HexbinStatistic, "dominant_cluster">) {
+  switch (statistic) {
+    case "count":
+      return cell.count
+    case "median_price":
+      return cell.medianPrice
+    case "median_price_per_building_m2":
+      return cell.medianPricePerBuildingM2
+  }
+}
+
+const EMPTY_CELL_COLOR = "#d1d5db"
+
+export interface HexColorScale {
+  color: (cell: HexCell) => string
+  // Domain of the sequential scale, for the legend; NaN when cells are colored by cluster
+  min: number
+  max: number
+}
+
+// Yellow (low) to red (high), clipped to the 5th-95th percentile so a few outlier cells do not flatten the
+// scale. Dominant-cluster mode reuses the cluster palette instead.
+export function createHexColorScale(cells: HexCell[], statistic: HexbinStatistic): HexColorScale {
+  if (statistic === "dominant_cluster") {
+    return { color: (cell) => getClusterColor(cell.dominantCluster), min: NaN, max: NaN }
+  }
+  const values = cells.map((cell) => cellValue(cell, statistic))
+  const min = quantile(values, 0.05)
+  const max = quantile(values, 0.95)
+  return {
+    color: (cell) => sequentialColor(cellValue(cell, statistic), min, max),
+    min,
+    max,
+  }
+}
+
+// What the map needs to draw the grid: binned cells plus how to color them
+export interface HexbinLayer {
+  cells: HexCell[]
+  scale: HexColorScale
+  showMarkers: boolean
+}
+
+export function sequentialColor(value: number, min: number, max: number) {
+  if (!Number.isFinite(value)) return EMPTY_CELL_COLOR
+  const t = max > min ? Math.min(Math.max((value - min) / (max - min), 0), 1) : 0.5
+  return `hsl(${Math.round(55 - 55 * t)}, 90%, ${Math.round(60 - 15 * t)}%)`
+}
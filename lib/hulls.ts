@@ -0,0 +1,146 @@
+import type { PropertyData } from "./property-schema"
+import { NOISE_CLUSTER } from "./clustering"
+import { createLocalProjection, type LatLngTuple } from "./spatial"
+import { quantile } from "./stats"
+
+export type HullMethod = "convex" | "concave"
+
+export interface HullSettings {
+  enabled: boolean
+  method: HullMethod
+  // Concave only: an edge is dug in while it is this many times longer than the distance to the nearest inner point;
+  // lower values hug the points more tightly
+  concavity: number
+  // Points farther from the cluster centroid than this percentile of distances are left out of the hull
+  outlierPercentile: number
+}
+
+export const DEFAULT_HULL_SETTINGS: HullSettings = {
+  enabled: false,
+  method: "convex",
+  concavity: 2,
+  outlierPercentile: 95,
+}
+
+export interface ClusterHull {
+  cluster: number
+  points: LatLngTuple[]
+  // Properties inside the footprint and those dropped as outliers
+  included: number
+  excluded: number
+}
+
+type XY = [number, number]
+
+const cross = (o: XY, a: XY, b: XY) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0])
+const distance = (a: XY, b: XY) => Math.hypot(a[0] - b[0], a[1] - b[1])
+
+function distanceToSegment(p: XY, a: XY, b: XY) {
+  const dx = b[0] - a[0]
+  const dy = b[1] - a[1]
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared ? Math.min(Math.max(((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared, 0), 1) : 0
+  return distance(p, [a[0] + t * dx, a[1] + t * dy])
+}
+
+// Proper crossing only; segments that merely share an endpoint do not count
+function segmentsCross(a: XY, b: XY, c: XY, d: XY) {
+  return cross(a, b, c) * cross(a, b, d) < 0 && cross(c, d, a) * cross(c, d, b) < 0
+}
+
+// Andrew's monotone chain, counter-clockwise without repeating the first point
+export function convexHull(points: XY[]): XY[] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1])
+  if (sorted.length < 3) return sorted
+  const lower: XY[] = []
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop()
+    lower.push(p)
+  }
+  const upper: XY[] = []
+  for (const p of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop()
+    upper.push(p)
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1))
+}
+
+// Edge digging is O(n²) in the inner points, so above this many points they are sampled evenly
+export const MAX_CONCAVE_HULL_POINTS = 1000
+
+// Park & Oh edge digging: start from the convex hull and repeatedly replace a long edge (a, b) with (a, p, b),
+// p being the nearest inner point, until every edge is short relative to how far inside its nearest point lies
+export function concaveHull(points: XY[], concavity: number): XY[] {
+  const hull = convexHull(points)
+  if (hull.length < 3) return hull
+  const onHull = new Set(hull)
+  let inner = points.filter((p) => !onHull.has(p))
+  // The convex hull is always kept whole so sampling never cuts off the outermost points
+  const innerLimit = Math.max(MAX_CONCAVE_HULL_POINTS - hull.length, 0)
+  if (inner.length > innerLimit) {
+    const step = inner.length / innerLimit
+    inner = Array.from({ length: innerLimit }, (_, i) => inner[Math.floor(i * step)])
+  }
+
+  let i = 0
+  while (i < hull.length && inner.length) {
+    const a = hull[i]
+    const b = hull[(i + 1) % hull.length]
+    let nearest: XY | null = null
+    let nearestDistance = Infinity
+    for (const p of inner) {
+      const d = distanceToSegment(p, a, b)
+      if (d < nearestDistance) {
+        nearest = p
+        nearestDistance = d
+      }
+    }
+    const p = nearest as XY
+    const decisionDistance = Math.min(distance(a, p), distance(b, p))
+    const digs =
+      decisionDistance > 0 &&
+      distance(a, b) / decisionDistance > concavity &&
+      hull.every((c, j) => {
+        const d = hull[(j + 1) % hull.length]
+        return j === i || (!segmentsCross(a, p, c, d) && !segmentsCross(p, b, c, d))
+      })
+    if (digs) {
+      // Re-check the new edge (a, p) before moving on
+      hull.splice(i + 1, 0, p)
+      inner = inner.filter((q) => q !== p)
+    } else {
+      i++
+    }
+  }
+  return hull
+}
+
+// One footprint per cluster (noise excluded), in the properties' current cluster assignment
+export function buildClusterHulls(properties: PropertyData[], settings: HullSettings): ClusterHull[] {
+  if (!properties.length) return []
+  const projection = createLocalProjection(properties.reduce((sum, p) => sum + p.latitude, 0) / properties.length)
+  const byCluster = new Map<number, XY[]>()
+  properties.forEach((p) => {
+    if (p.cluster === NOISE_CLUSTER) return
+    const points = byCluster.get(p.cluster) ?? []
+    points.push(projection.toXY(p.latitude, p.longitude))
+    byCluster.set(p.cluster, points)
+  })
+
+  return Array.from(byCluster, ([cluster, points]) => {
+    const centroid: XY = [
+      points.reduce((sum, p) => sum + p[0], 0) / points.length,
+      points.reduce((sum, p) => sum + p[1], 0) / points.length,
+    ]
+    const distances = points.map((p) => distance(p, centroid))
+    const cutoff = quantile(distances, settings.outlierPercentile / 100)
+    const kept = points.filter((_, index) => distances[index] <= cutoff)
+    const outline = settings.method === "concave" ? concaveHull(kept, settings.concavity) : convexHull(kept)
+    return {
+      cluster,
+      points: outline.map(([x, y]) => projection.toLatLng(x, y)),
+      included: kept.length,
+      excluded: points.length - kept.length,
+    }
+  }).filter((hull) => hull.points.length >= 3)
+}
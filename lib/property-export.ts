@@ -0,0 +1,36 @@
+import Papa from "papaparse"
+import { formatClusterLabel, type ClusterNames, type ClusteringSettings } from "./clustering"
+import { CLUSTER_NAME_COLUMN, PROPERTY_FIELDS } from "./column-mapping"
+import type { PropertyFilters } from "./filters"
+import type { PropertyData } from "./property-schema"
+
+export interface ExportMetadata {
+  source: string
+  datasetId: string | null
+  exportedAt: string
+  rowCount: number
+  totalRows: number
+  filters: PropertyFilters
+  clustering: ClusteringSettings | null
+  clusterNames: ClusterNames
+}
+
+// Lines starting with this at the top of a file are skipped by readCSV, so commented exports can be re-uploaded as-is
+export const CSV_COMMENT_PREFIX = "#"
+
+// A value such as "#PROMO Rumah ..." is quoted so its line can never be mistaken for metadata
+const quoteCommentLike = (value: unknown) => typeof value === "string" && value.startsWith(CSV_COMMENT_PREFIX)
+
+// Same columns the importer expects, plus cluster_name so names survive a round trip
+export function toCSV(properties: PropertyData[], clusterNames: ClusterNames, metadata?: ExportMetadata) {
+  const csv = Papa.unparse(
+    properties.map((p) => ({ ...p, [CLUSTER_NAME_COLUMN]: formatClusterLabel(p.cluster, clusterNames) })),
+    { columns: [...PROPERTY_FIELDS.map((f) => f.key), CLUSTER_NAME_COLUMN], newline: "\n", quotes: quoteCommentLike },
+  )
+  if (!metadata) return csv
+  const header = JSON.stringify(metadata, null, 2)
+    .split("\n")
+    .map((line) => `${CSV_COMMENT_PREFIX} ${line}`)
+    .join("\n")
+  return `${header}\n${csv}`
+}
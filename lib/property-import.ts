@@ -0,0 +1,198 @@
+import Papa from "papaparse"
+import { formatClusterLabel, type ClusterNames } from "./clustering"
+import { CLUSTER_NAME_COLUMN, applyColumnMapping, identityMapping, type ColumnMapping } from "./column-mapping"
+import { isGeoJSON, readGeoJSON } from "./geojson"
+import { CSV_COMMENT_PREFIX } from "./property-export"
+import { propertySchema, type PropertyData } from "./property-schema"
+
+// Rows as read from a file, before column mapping and validation
+export interface RawTable {
+  sourceName: string
+  headers: string[]
+  rows: Record<string, unknown>[]
+  // Parser-level problems keyed by 0-based row index
+  rowErrors: Map<number, string[]>
+  // Number reported for rows[0]: 2 for files with a header line, 1 for JSON records
+  firstRowNumber: number
+}
+
+export interface Workbook {
+  sourceName: string
+  sheetNames: string[]
+  readSheet: (sheetName: string) => RawTable
+}
+
+export const SUPPORTED_FILE_EXTENSIONS = [".csv", ".xlsx", ".json", ".ndjson", ".jsonl", ".geojson"]
+
+export interface RejectedRow {
+  // 1-based row in the source: the line for CSV/NDJSON, the sheet row for Excel, the record for JSON arrays
+  row: number
+  name: string
+  errors: string[]
+}
+
+export interface ImportReport {
+  sourceName: string
+  total: number
+  accepted: PropertyData[]
+  rejected: RejectedRow[]
+  // Names found in a cluster_name column, e.g. when re-importing one of our exports
+  clusterNames: ClusterNames
+}
+
+// Shared validation step for every import format: each record is checked against the PropertyData schema
+export function validateRecords(
+  records: Record<string, unknown>[],
+  sourceName: string,
+  rowErrors: Map<number, string[]> = new Map(),
+  firstRowNumber = 2,
+): ImportReport {
+  const accepted: PropertyData[] = []
+  const rejected: RejectedRow[] = []
+  const clusterNames: ClusterNames = {}
+
+  records.forEach((record, index) => {
+    const errors = [...(rowErrors.get(index) || [])]
+    // A row the parser could not read at all only reports the parser error, not every missing field
+    const hasValues = Object.values(record).some((v) => v !== undefined && v !== "")
+    const result = propertySchema.safeParse(record)
+    if (!result.success && (hasValues || !errors.length)) errors.push(...result.error.issues.map((issue) => issue.message))
+    if (result.success && !errors.length) {
+      accepted.push(result.data)
+      const name = String(record[CLUSTER_NAME_COLUMN] ?? "").trim()
+      if (name && name !== formatClusterLabel(result.data.cluster)) clusterNames[result.data.cluster] = name
+    } else {
+      rejected.push({ row: index + firstRowNumber, name: String(record.name ?? ""), errors })
+    }
+  })
+
+  return { sourceName, total: records.length, accepted, rejected, clusterNames }
+}
+
+export function validateTable(table: RawTable, mapping: ColumnMapping) {
+  return validateRecords(applyColumnMapping(table.rows, mapping), table.sourceName, table.rowErrors, table.firstRowNumber)
+}
+
+// Only the metadata block toCSV writes above the header is skipped; a "#" further down is data
+function stripMetadataBlock(csvText: string) {
+  let offset = 0
+  let skipped = 0
+  while (csvText.startsWith(CSV_COMMENT_PREFIX, offset)) {
+    const lineEnd = csvText.indexOf("\n", offset)
+    offset = lineEnd < 0 ? csvText.length : lineEnd + 1
+    skipped++
+  }
+  return { text: csvText.slice(offset), skipped }
+}
+
+export function readCSV(csvText: string, sourceName: string): Promise<RawTable> {
+  const { text, skipped } = stripMetadataBlock(csvText)
+  return new Promise((resolve, reject) => {
+    Papa.parse(text, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results: any) => {
+        // Structural problems (e.g. missing fields) are reported against the row they occurred in
+        const rowErrors = new Map<number, string[]>()
+        results.errors.forEach((error: any) => {
+          if (typeof error.row !== "number") return
+          rowErrors.set(error.row, [...(rowErrors.get(error.row) || []), error.message])
+        })
+        resolve({
+          sourceName,
+          headers: results.meta.fields || [],
+          rows: results.data,
+          rowErrors,
+          firstRowNumber: skipped + 2,
+        })
+      },
+      error: (error: any) => reject(error),
+    })
+  })
+}
+
+// For files already in the PropertyData schema (e.g. the bundled sample)
+export async function parsePropertiesCSV(csvText: string, sourceName: string): Promise<ImportReport> {
+  const table = await readCSV(csvText, sourceName)
+  return validateTable(table, identityMapping(table.headers))
+}
+
+function collectHeaders(rows: Record<string, unknown>[]) {
+  const headers = new Set<string>()
+  rows.forEach((row) => Object.keys(row).forEach((key) => headers.add(key)))
+  return Array.from(headers)
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value)
+
+// The records of a parsed document: the array itself, the wrapped array whose items are objects
+// (e.g. {"meta": {...}, "tags": [...], "data": [...]}), or a single record, which also covers one-line NDJSON
+function findRecords(parsed: unknown): unknown[] | undefined {
+  if (Array.isArray(parsed)) return parsed
+  if (!isRecord(parsed)) return undefined
+  const wrapped = Object.values(parsed).find((value) => Array.isArray(value) && value.length && value.every(isRecord))
+  return (wrapped as unknown[] | undefined) ?? [parsed]
+}
+
+// Accepts a JSON array of records, an object wrapping one (e.g. {"data": [...]}), a single record, GeoJSON, or NDJSON
+export function readJSON(text: string, sourceName: string): RawTable {
+  const trimmed = text.trim()
+  let parsed: unknown = undefined
+  try {
+    parsed = JSON.parse(trimmed)
+  } catch {
+    // Not a single JSON document; fall through to NDJSON
+  }
+
+  if (isGeoJSON(parsed)) return readGeoJSON(parsed, sourceName)
+  if (parsed !== undefined) {
+    const records = findRecords(parsed)
+    if (!records) throw new Error("JSON harus berupa array properti")
+    const rowErrors = new Map<number, string[]>()
+    const rows = records.map((record, index) => {
+      if (isRecord(record)) return record
+      rowErrors.set(index, ["Bukan objek JSON"])
+      return {}
+    })
+    return { sourceName, headers: collectHeaders(rows), rows, rowErrors, firstRowNumber: 1 }
+  }
+
+  const rowErrors = new Map<number, string[]>()
+  const rows = trimmed
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      try {
+        const record = JSON.parse(line)
+        if (isRecord(record)) return record
+        rowErrors.set(index, ["Bukan objek JSON"])
+      } catch {
+        rowErrors.set(index, ["Baris NDJSON tidak valid"])
+      }
+      return {}
+    })
+  return { sourceName, headers: collectHeaders(rows), rows, rowErrors, firstRowNumber: 1 }
+}
+
+export async function readWorkbook(buffer: ArrayBuffer, sourceName: string): Promise<Workbook> {
+  // SheetJS is only needed for Excel uploads, so keep it out of the main bundle
+  const XLSX = await import("xlsx")
+  const workbook = XLSX.read(buffer, { type: "array" })
+  return {
+    sourceName,
+    sheetNames: workbook.SheetNames,
+    readSheet: (sheetName) => {
+      const sheet = workbook.Sheets[sheetName]
+      const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false })
+      const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: "", blankrows: false })
+      return {
+        sourceName: workbook.SheetNames.length > 1 ? `${sourceName} [${sheetName}]` : sourceName,
+        headers: headerRow.map(String),
+        rows,
+        rowErrors: new Map(),
+        firstRowNumber: 2,
+      }
+    },
+  }
+}
@@ -0,0 +1,63 @@
+import { z } from "zod"
+import { extractAmenities } from "./amenities"
+import { computeDerivedMetrics } from "./derived-metrics"
+
+// Placeholder coordinates some portals emit when a listing has no real location
+const PLACEHOLDER_COORDINATES = [
+  { latitude: 0.0, longitude: 0.0 },
+  { latitude: 1.0, longitude: 1.0 },
+  { latitude: -6.919440, longitude: 180.0 },
+  { latitude: 20.0, longitude: 28.0 },
+]
+
+// CSV cells arrive as strings; blank cells count as missing rather than 0
+const numeric = (label: string) =>
+  z.preprocess(
+    (value) => {
+      if (value === null || value === undefined) return undefined
+      if (typeof value === "string") return value.trim() === "" ? undefined : Number(value.trim())
+      return value
+    },
+    z
+      .number({ required_error: `${label} kosong`, invalid_type_error: `${label} bukan angka` })
+      .refine((v) => !Number.isNaN(v), `${label} bukan angka`)
+      .refine((v) => Number.isFinite(v), `${label} tidak valid`),
+  )
+
+const nonNegative = (label: string) => numeric(label).pipe(z.number().min(0, `${label} tidak boleh negatif`))
+
+export const propertySchema = z
+  .object({
+    name: z.preprocess((v) => (typeof v === "string" ? v.trim() : v), z.string({ required_error: "Nama kosong" }).min(1, "Nama kosong")),
+    url: z.preprocess((v) => (v === null || v === undefined ? "" : String(v)), z.string()),
+    bedrooms: nonNegative("Kamar tidur"),
+    bathrooms: nonNegative("Kamar mandi"),
+    floors: nonNegative("Lantai"),
+    land_area: nonNegative("Luas tanah"),
+    building_area: nonNegative("Luas bangunan"),
+    longitude: numeric("Longitude").pipe(z.number().min(-180, "Longitude di luar rentang").max(180, "Longitude di luar rentang")),
+    latitude: numeric("Latitude").pipe(z.number().min(-90, "Latitude di luar rentang").max(90, "Latitude di luar rentang")),
+    price: nonNegative("Harga"),
+    // Uploaded files may not be clustered yet; they start in a single cluster until re-clustered
+    cluster: z.preprocess(
+      (v) => (v === null || v === undefined || (typeof v === "string" && v.trim() === "") ? 0 : v),
+      numeric("Cluster").pipe(z.number().int("Cluster harus bilangan bulat").min(-1, "Cluster tidak valid")),
+    ),
+  })
+  .superRefine((p, ctx) => {
+    const isPlaceholder = PLACEHOLDER_COORDINATES.some(
+      (ex) => p.latitude.toFixed(6) === ex.latitude.toFixed(6) && p.longitude.toFixed(6) === ex.longitude.toFixed(6),
+    )
+    if (isPlaceholder) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Koordinat placeholder (bukan lokasi sebenarnya)" })
+    }
+  })
+  // Amenity tags and per-m² metrics are derived on every import rather than read from the file
+  .transform((p) => deriveFields(p))
+
+// Also re-run on datasets restored from storage, which may predate some derived fields
+export function deriveFields<T extends { name: string; price: number; land_area: number; building_area: number }>(p: T) {
+  return { ...p, amenities: extractAmenities(p.name), ...computeDerivedMetrics(p) }
+}
+
+export type PropertyData = z.infer<typeof propertySchema>
@@ -0,0 +1,92 @@
+import type { PropertyData } from "./property-schema"
+
+export interface TextToken {
+  text: string
+  start: number
+  end: number
+}
+
+export interface SearchMatch {
+  start: number
+  end: number
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu
+
+// Lowercase and strip diacritics so "Café" and "cafe" compare equal
+export function normalizeText(text: string) {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase()
+}
+
+// Split into word tokens, keeping offsets into the original string for highlighting
+export function tokenize(text: string): TextToken[] {
+  return Array.from(text.matchAll(TOKEN_PATTERN), (m) => ({
+    text: normalizeText(m[0]),
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+  }))
+}
+
+export function parseQuery(query: string) {
+  return tokenize(query).map((t) => t.text)
+}
+
+// Last path segment of a listing URL, e.g. ".../rumah-dijual-buah-batu-123" -> "rumah dijual buah batu 123"
+export function urlSlug(url: string) {
+  const path = url.split(/[?#]/)[0].replace(/\/+$/, "").replace(/\.html?$/i, "")
+  const segment = path.slice(path.lastIndexOf("/") + 1)
+  let decoded = segment
+  try {
+    decoded = decodeURIComponent(segment)
+  } catch {
+    // Malformed escapes: search the raw segment
+  }
+  return decoded.replace(/[-_.]+/g, " ")
+}
+
+function levenshtein(a: string, b: string, limit: number) {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > limit) return limit + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Typo tolerance grows with the query term: none below 4 characters, 1 edit up to 6, 2 beyond
+function allowedEdits(term: string) {
+  if (term.length < 4) return 0
+  return term.length <= 6 ? 1 : 2
+}
+
+// A term matches a word by prefix ("furnish" -> "furnished") or within the typo tolerance
+function termMatchesToken(term: string, token: string) {
+  if (token.startsWith(term)) return true
+  const edits = allowedEdits(term)
+  if (!edits) return false
+  // Compare against the same-length prefix too, so typos in partially typed words still match
+  return levenshtein(term, token, edits) <= edits || levenshtein(term, token.slice(0, term.length), edits) <= edits
+}
+
+// Every query term must match a word of the name or the URL slug
+export function matchesQuery(property: PropertyData, terms: string[]) {
+  if (!terms.length) return true
+  const words = [...tokenize(property.name), ...tokenize(urlSlug(property.url || ""))]
+  return terms.every((term) => words.some((token) => termMatchesToken(term, token.text)))
+}
+
+// Character ranges of the words in `text` matched by the query, in order, for <mark> highlighting
+export function findMatches(text: string, query: string): SearchMatch[] {
+  const terms = parseQuery(query)
+  if (!terms.length) return []
+  return tokenize(text)
+    .filter((token) => terms.some((term) => termMatchesToken(term, token.text)))
+    .map(({ start, end }) => ({ start, end }))
+}
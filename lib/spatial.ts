@@ -0,0 +1,75 @@
+import { METERS_PER_DEGREE, haversineDistance } from "./clustering"
+
+// [latitude, longitude], the order Leaflet uses
+export type LatLngTuple = [number, number]
+
+// Shape drawn on the map to restrict properties to an area
+export type SpatialShape =
+  | { type: "polygon"; points: LatLngTuple[] }
+  | { type: "rectangle"; southWest: LatLngTuple; northEast: LatLngTuple }
+  | { type: "circle"; center: LatLngTuple; radiusKm: number }
+
+export interface MapBounds {
+  southWest: LatLngTuple
+  northEast: LatLngTuple
+}
+
+export interface MapView {
+  center: LatLngTuple
+  zoom: number
+}
+
+interface Point {
+  latitude: number
+  longitude: number
+}
+
+// Equirectangular projection to meters around a reference latitude; accurate enough for city-sized extents
+export function createLocalProjection(referenceLatitude: number) {
+  const lngScale = METERS_PER_DEGREE * Math.cos((referenceLatitude * Math.PI) / 180)
+  return {
+    toXY: (lat: number, lng: number): [number, number] => [lng * lngScale, lat * METERS_PER_DEGREE],
+    toLatLng: (x: number, y: number): LatLngTuple => [y / METERS_PER_DEGREE, x / lngScale],
+  }
+}
+
+// Ray casting; lat/lng treated as planar, which is fine at city scale
+export function pointInPolygon({ latitude, longitude }: Point, polygon: LatLngTuple[]) {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i]
+    const [latJ, lngJ] = polygon[j]
+    if (latI > latitude !== latJ > latitude && longitude < ((lngJ - lngI) * (latitude - latI)) / (latJ - latI) + lngI) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+export function pointInBounds({ latitude, longitude }: Point, { southWest, northEast }: MapBounds) {
+  return latitude >= southWest[0] && latitude <= northEast[0] && longitude >= southWest[1] && longitude <= northEast[1]
+}
+
+export function pointInShape(point: Point, shape: SpatialShape) {
+  switch (shape.type) {
+    case "polygon":
+      return pointInPolygon(point, shape.points)
+    case "rectangle":
+      return pointInBounds(point, shape)
+    case "circle":
+      return (
+        haversineDistance(point, { latitude: shape.center[0], longitude: shape.center[1] }) <= shape.radiusKm * 1000
+      )
+  }
+}
+
+export function describeShape(shape: SpatialShape) {
+  switch (shape.type) {
+    case "polygon":
+      return `Poligon (${shape.points.length} titik)`
+    case "rectangle":
+      return "Persegi panjang"
+    case "circle":
+      return `Lingkaran radius ${shape.radiusKm.toLocaleString("id-ID", { maximumFractionDigits: 2 })} km`
+  }
+}
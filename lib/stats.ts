@@ -0,0 +1,33 @@
+export function median(values: number[]) {
+  const sorted = values.filter((v) => Number.isFinite(v)).sort((a, b) => a - b)
+  if (!sorted.length) return NaN
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+export function mean(values: number[]) {
+  const finite = values.filter((v) => Number.isFinite(v))
+  return finite.length ? finite.reduce((a, b) => a + b, 0) / finite.length : NaN
+}
+
+// Equal-width bin counts over [min, max]; values outside the range are ignored
+export function histogram(values: number[], min: number, max: number, bins: number) {
+  const counts = new Array(bins).fill(0)
+  const width = (max - min) / bins
+  values.forEach((v) => {
+    if (!Number.isFinite(v) || v < min || v > max) return
+    const index = width > 0 ? Math.min(bins - 1, Math.floor((v - min) / width)) : 0
+    counts[index]++
+  })
+  return counts
+}
+
+// Linear-interpolated quantile, q in [0, 1]
+export function quantile(values: number[], q: number) {
+  const sorted = values.filter((v) => Number.isFinite(v)).sort((a, b) => a - b)
+  if (!sorted.length) return NaN
+  const position = (sorted.length - 1) * Math.min(Math.max(q, 0), 1)
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
@@ -0,0 +1,129 @@
+import { DEFAULT_FILTERS, RANGE_FIELDS, SORT_FIELDS, type PropertyFilters } from "./filters"
+import { AMENITY_TAGS } from "./amenities"
+import type { PropertyData } from "./property-schema"
+import type { LatLngTuple, MapBounds, MapView, SpatialShape } from "./spatial"
+
+// Everything a shared link restores; only non-default values are written to the query string
+export interface UrlState {
+  datasetId: string | null
+  filters: PropertyFilters
+  // See propertyKey; stays valid when the dataset is re-sorted or re-clustered
+  selectedKey: string | null
+  view: MapView | null
+}
+
+const LIST_SEPARATOR = ","
+const RANGE_SEPARATOR = ".."
+
+const formatNumber = (value: number, digits = 6) => String(Number(value.toFixed(digits)))
+
+function parseNumbers(value: string | null, separator = LIST_SEPARATOR) {
+  if (!value) return null
+  const numbers = value.split(separator).map(Number)
+  return numbers.every(Number.isFinite) ? numbers : null
+}
+
+const toTuple = ([lat, lng]: number[]): LatLngTuple => [lat, lng]
+
+// Listing URL when there is one, otherwise name and coordinates
+export function propertyKey({ url, name, latitude, longitude }: PropertyData) {
+  return url || `${name}@${formatNumber(latitude)},${formatNumber(longitude)}`
+}
+
+// c:lat,lng,radiusKm | r:swLat,swLng,neLat,neLng | p:lat,lng;lat,lng;...
+function encodeShape(shape: SpatialShape) {
+  switch (shape.type) {
+    case "circle":
+      return `c:${[...shape.center, shape.radiusKm].map((v) => formatNumber(v)).join(LIST_SEPARATOR)}`
+    case "rectangle":
+      return `r:${[...shape.southWest, ...shape.northEast].map((v) => formatNumber(v)).join(LIST_SEPARATOR)}`
+    case "polygon":
+      return `p:${shape.points.map((point) => point.map((v) => formatNumber(v)).join(LIST_SEPARATOR)).join(";")}`
+  }
+}
+
+function decodeShape(value: string | null): SpatialShape | null {
+  if (!value) return null
+  const [kind, body = ""] = value.split(":")
+  if (kind === "c") {
+    const numbers = parseNumbers(body)
+    return numbers?.length === 3 && numbers[2] > 0
+      ? { type: "circle", center: toTuple(numbers), radiusKm: numbers[2] }
+      : null
+  }
+  if (kind === "r") {
+    const numbers = parseNumbers(body)
+    return numbers?.length === 4
+      ? { type: "rectangle", southWest: toTuple(numbers), northEast: toTuple(numbers.slice(2)) }
+      : null
+  }
+  if (kind === "p") {
+    const points = body.split(";").map((point) => parseNumbers(point))
+    return points.length >= 3 && points.every((p) => p?.length === 2)
+      ? { type: "polygon", points: points.map((p) => toTuple(p as number[])) }
+      : null
+  }
+  return null
+}
+
+function encodeBounds({ southWest, northEast }: MapBounds) {
+  return [...southWest, ...northEast].map((v) => formatNumber(v)).join(LIST_SEPARATOR)
+}
+
+function decodeBounds(value: string | null): MapBounds | null {
+  const numbers = parseNumbers(value)
+  return numbers?.length === 4 ? { southWest: toTuple(numbers), northEast: toTuple(numbers.slice(2)) } : null
+}
+
+export function encodeUrlState({ datasetId, filters, selectedKey, view }: UrlState) {
+  const params = new URLSearchParams()
+  if (datasetId) params.set("ds", datasetId)
+  if (filters.query.trim()) params.set("q", filters.query)
+  if (filters.hiddenClusters.length) params.set("hide", filters.hiddenClusters.join(LIST_SEPARATOR))
+  if (filters.amenities.length) params.set("tags", filters.amenities.join(LIST_SEPARATOR))
+  RANGE_FIELDS.forEach(({ key }) => {
+    const range = filters.ranges[key]
+    if (range) params.set(key, range.map((v) => formatNumber(v)).join(RANGE_SEPARATOR))
+  })
+  if (filters.shape) params.set("area", encodeShape(filters.shape))
+  if (filters.viewport) params.set("inview", encodeBounds(filters.viewport))
+  if (filters.sort) params.set("sort", `${filters.sort.field}:${filters.sort.direction}`)
+  if (selectedKey) params.set("sel", selectedKey)
+  if (view) params.set("map", `${formatNumber(view.center[0], 5)},${formatNumber(view.center[1], 5)},${view.zoom}`)
+  return params.toString()
+}
+
+export function decodeUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search)
+  const filters: PropertyFilters = { ...DEFAULT_FILTERS, ranges: {} }
+
+  filters.query = params.get("q") ?? ""
+  filters.hiddenClusters = parseNumbers(params.get("hide")) ?? []
+  const tags = params.get("tags")?.split(LIST_SEPARATOR) ?? []
+  filters.amenities = AMENITY_TAGS.map((t) => t.key).filter((key) => tags.includes(key))
+  RANGE_FIELDS.forEach(({ key }) => {
+    const range = parseNumbers(params.get(key), RANGE_SEPARATOR)
+    if (range?.length === 2 && range[0] <= range[1]) filters.ranges[key] = [range[0], range[1]]
+  })
+  filters.shape = decodeShape(params.get("area"))
+  filters.viewport = decodeBounds(params.get("inview"))
+  const [sortField, direction] = params.get("sort")?.split(":") ?? []
+  const field = SORT_FIELDS.find((f) => f.key === sortField)?.key
+  if (field && (direction === "asc" || direction === "desc")) {
+    filters.sort = { field, direction }
+  }
+
+  const view = parseNumbers(params.get("map"))
+
+  return {
+    datasetId: params.get("ds"),
+    filters,
+    selectedKey: params.get("sel") || null,
+    view: view?.length === 3 ? { center: toTuple(view), zoom: view[2] } : null,
+  }
+}
+
+// Whether the query string carries any view state worth restoring
+export function hasUrlState(search: string) {
+  return new URLSearchParams(search).toString() !== ""
+}